@@ -0,0 +1,57 @@
+// public/worklets/pcm-capture-processor.js
+// AudioWorklet behind the speaker page's "PCM" capture mode. Mixes the input down to mono,
+// resamples it from the AudioContext rate to 16 kHz with linear interpolation and posts
+// Int16 little-endian frames of FRAME_SAMPLES samples (100 ms) to the main thread, which
+// sends them to the server as they are: no WebM container, no FFmpeg on the other side.
+
+const TARGET_SAMPLE_RATE = 16000;
+const FRAME_SAMPLES = 1600;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    // `sampleRate` is the AudioContext's rate, a global of the worklet scope
+    this.step = sampleRate / TARGET_SAMPLE_RATE; // Input samples per output sample
+    this.position = 0; // Read position of the next output sample, relative to the current input block
+    this.previousSample = 0; // Last input sample of the previous block, to interpolate across blocks
+    this.frame = new Int16Array(FRAME_SAMPLES);
+    this.frameLength = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true; // No input connected yet
+
+    const blockLength = channels[0].length;
+    const mono = new Float32Array(blockLength);
+    for (const channel of channels) {
+      for (let i = 0; i < blockLength; i++) mono[i] += channel[i] / channels.length;
+    }
+
+    // Position -1 is previousSample, so the interpolation reaches back into the previous block
+    while (this.position < blockLength - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const before = index < 0 ? this.previousSample : mono[index];
+      const after = mono[index + 1];
+      this.pushSample(before + (after - before) * fraction);
+      this.position += this.step;
+    }
+    this.position -= blockLength;
+    this.previousSample = mono[blockLength - 1];
+    return true;
+  }
+
+  pushSample(value) {
+    const clamped = Math.max(-1, Math.min(1, value));
+    this.frame[this.frameLength++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.frameLength === FRAME_SAMPLES) {
+      // Transfer the buffer instead of copying it; the next frame gets a fresh one
+      this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+      this.frame = new Int16Array(FRAME_SAMPLES);
+      this.frameLength = 0;
+    }
+  }
+}
+
+registerProcessor('pcm-capture-processor', PcmCaptureProcessor);
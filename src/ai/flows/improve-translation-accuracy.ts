@@ -1,7 +1,7 @@
 'use server';
 
 /**
- * @fileOverview This file defines a Genkit flow for improving translation accuracy by using reasoning over a knowledge base to select terms for translation.
+ * @fileOverview This file defines a Genkit flow for improving translation accuracy by using reasoning over a knowledge base (the room's glossary) to select terms for translation.
  *
  * - improveTranslationAccuracy - A function that initiates the translation improvement flow.
  * - ImproveTranslationAccuracyInput - The input type for the improveTranslationAccuracy function.
@@ -11,10 +11,31 @@
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
 
+const TranslationContextEntrySchema = z.object({
+  source: z.string().describe('A previously translated sentence, in the source language.'),
+  target: z.string().describe('The translation that was produced for it.'),
+});
+
+export type TranslationContextEntry = z.infer<typeof TranslationContextEntrySchema>;
+
+const GlossarySchema = z.object({
+  terms: z
+    .array(z.object({source: z.string(), target: z.string()}))
+    .describe('Required translations: wherever the source term occurs, the translation must use the target term.'),
+  doNotTranslate: z.array(z.string()).describe('Terms that must appear in the translation exactly as written.'),
+});
+
 const ImproveTranslationAccuracyInputSchema = z.object({
   text: z.string().describe('The text to be translated.'),
   sourceLanguage: z.string().describe('The source language of the text.'),
   targetLanguage: z.string().describe('The target language for the translation.'),
+  context: z
+    .array(TranslationContextEntrySchema)
+    .optional()
+    .describe('The most recent source/target sentence pairs of the same stream, oldest first. Used for coherence only; it must not be translated again.'),
+  glossary: GlossarySchema
+    .optional()
+    .describe('The glossary entries of the room that occur in the text.'),
 });
 
 export type ImproveTranslationAccuracyInput = z.infer<
@@ -49,6 +70,22 @@ const improveTranslationAccuracyPrompt = ai.definePrompt({
 
   Source Language: {{{sourceLanguage}}}
   Target Language: {{{targetLanguage}}}
+  {{#if context}}
+  The text continues a live speech. These are the previous sentences and how they were translated. Use them only to keep terminology, pronouns and tone consistent; do not repeat or translate them again:
+  {{#each context}}
+  - Source: {{{source}}}
+    Translation: {{{target}}}
+  {{/each}}
+  {{/if}}
+  {{#if glossary}}
+  Knowledge base (the room's glossary). These rules are mandatory:
+  {{#each glossary.terms}}
+  - Translate "{{{source}}}" as "{{{target}}}".
+  {{/each}}
+  {{#each glossary.doNotTranslate}}
+  - Keep "{{{this}}}" exactly as written; do not translate it.
+  {{/each}}
+  {{/if}}
   Text to Translate: {{{text}}}
 
   Translation:`,
@@ -0,0 +1,82 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { canAccessRoom, verifyRequestJoinToken } from "@/services/JoinTokens";
+import { glossaryStore, parseGlossary, GlossaryEnforcementSchema, GlossaryParseError, type GlossaryFormat } from "@/services/Glossary";
+
+export const dynamic = "force-dynamic";
+
+const MAX_GLOSSARY_BYTES = 1024 * 1024;
+
+type Authorization = { roomId: string } | { response: NextResponse };
+
+/** Verifies the join token and that it grants access to the room; editing also needs a speaker or moderator role. */
+async function authorize(request: NextRequest, params: Promise<{ roomId: string }>, forEditing: boolean): Promise<Authorization> {
+  const verification = verifyRequestJoinToken(request.url, request.headers.get("authorization"));
+  if (!verification.success) {
+    return { response: NextResponse.json({ error: verification.reason }, { status: 401 }) };
+  }
+  const roomId = (await params).roomId.trim();
+  if (!canAccessRoom(verification.claims, roomId)) {
+    return { response: NextResponse.json({ error: `Your join token does not grant access to room '${roomId}'.` }, { status: 403 }) };
+  }
+  if (forEditing && verification.claims.role === "listener") {
+    return { response: NextResponse.json({ error: "Listeners cannot change the room glossary." }, { status: 403 }) };
+  }
+  return { roomId };
+}
+
+/** The room's glossary as JSON (404 when the room has none). */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ roomId: string }> }) {
+  const auth = await authorize(request, params, false);
+  if ("response" in auth) return auth.response;
+  const glossary = await glossaryStore.load(auth.roomId);
+  if (!glossary) {
+    return NextResponse.json({ error: `Room '${auth.roomId}' has no glossary.` }, { status: 404 });
+  }
+  return NextResponse.json(glossary);
+}
+
+/**
+ * Replaces the room's glossary. The body is either JSON (`{ enforcement, terms: [{ source,
+ * target, language? }], doNotTranslate: [] }`) or CSV with a `source,target,language` header,
+ * chosen by `?format=` or the Content-Type. CSV rows without a target are do-not-translate terms.
+ * `?enforcement=fix|flag` sets the enforcement for either format; CSV has no column for it
+ * and uses 'fix' otherwise.
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ roomId: string }> }) {
+  const auth = await authorize(request, params, true);
+  if ("response" in auth) return auth.response;
+
+  const requestedFormat = request.nextUrl.searchParams.get("format");
+  const format: GlossaryFormat = requestedFormat === "csv" || (!requestedFormat && request.headers.get("content-type")?.includes("csv")) ? "csv" : "json";
+  const requestedEnforcement = request.nextUrl.searchParams.get("enforcement");
+  const enforcement = requestedEnforcement === null ? null : GlossaryEnforcementSchema.safeParse(requestedEnforcement);
+  if (enforcement && !enforcement.success) {
+    return NextResponse.json({ error: `Invalid enforcement '${requestedEnforcement}'. Use 'fix' or 'flag'.` }, { status: 400 });
+  }
+  const content = await request.text();
+  if (Buffer.byteLength(content, "utf-8") > MAX_GLOSSARY_BYTES) {
+    return NextResponse.json({ error: `Glossaries are limited to ${MAX_GLOSSARY_BYTES / 1024} KB.` }, { status: 413 });
+  }
+
+  try {
+    const glossary = parseGlossary(content, format);
+    if (enforcement) glossary.enforcement = enforcement.data;
+    await glossaryStore.save(auth.roomId, glossary);
+    console.log(`[Glossary] Room '${auth.roomId}' glossary replaced (${glossary.terms.length} terms, ${glossary.doNotTranslate.length} do-not-translate).`);
+    return NextResponse.json(glossary);
+  } catch (error: any) {
+    if (error instanceof GlossaryParseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ roomId: string }> }) {
+  const auth = await authorize(request, params, true);
+  if ("response" in auth) return auth.response;
+  const deleted = await glossaryStore.delete(auth.roomId);
+  return deleted
+    ? new NextResponse(null, { status: 204 })
+    : NextResponse.json({ error: `Room '${auth.roomId}' has no glossary.` }, { status: 404 });
+}
@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { transcriptStore, isValidSessionId } from "@/services/TranscriptStore";
+import { canAccessRoom, verifyRequestJoinToken } from "@/services/JoinTokens";
+import { exportTranscript, isTranscriptExportFormat, isTranscriptExportLanguage, TRANSCRIPT_EXPORT_FORMATS } from "@/services/TranscriptExport";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Downloads a recorded session transcript.
+ * Query: `format` (txt | json | srt | vtt, default txt) and optional `language`
+ * to export a translation instead of the source text. Requires a join token for the
+ * session's room (Bearer header or `token` query parameter).
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const verification = verifyRequestJoinToken(request.url, request.headers.get("authorization"));
+  if (!verification.success) {
+    return NextResponse.json({ error: verification.reason }, { status: 401 });
+  }
+
+  const { sessionId } = await params;
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ error: "Invalid session id." }, { status: 400 });
+  }
+
+  const format = request.nextUrl.searchParams.get("format") || "txt";
+  if (!isTranscriptExportFormat(format)) {
+    return NextResponse.json({ error: `Unsupported format '${format}'. Use one of: ${TRANSCRIPT_EXPORT_FORMATS.join(", ")}.` }, { status: 400 });
+  }
+  const language = request.nextUrl.searchParams.get("language")?.trim() || undefined;
+  if (language !== undefined && !isTranscriptExportLanguage(language)) {
+    return NextResponse.json({ error: `Invalid language '${language}'. Use a language code such as 'en' or 'pt-BR'.` }, { status: 400 });
+  }
+
+  const transcript = await transcriptStore.loadSession(sessionId);
+  if (!transcript || !canAccessRoom(verification.claims, transcript.roomId)) {
+    return NextResponse.json({ error: `Session '${sessionId}' not found.` }, { status: 404 });
+  }
+
+  const file = exportTranscript(transcript, format, language);
+  return new NextResponse(file.content, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.fileName}"`,
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { transcriptStore } from "@/services/TranscriptStore";
+import { canAccessRoom, verifyRequestJoinToken } from "@/services/JoinTokens";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const verification = verifyRequestJoinToken(request.url, request.headers.get("authorization"));
+  if (!verification.success) {
+    return NextResponse.json({ error: verification.reason }, { status: 401 });
+  }
+  const sessions = await transcriptStore.listSessions();
+  return NextResponse.json({ sessions: sessions.filter(session => canAccessRoom(verification.claims, session.roomId)) });
+}
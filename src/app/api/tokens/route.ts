@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { JoinRoleSchema } from "@/lib/protocol";
+import { ANY_ROOM, canAccessRoom, extractJoinToken, getJoinTokenSecret, signJoinToken, verifyJoinToken } from "@/services/JoinTokens";
+
+export const dynamic = "force-dynamic";
+
+const TokenRequestSchema = z.object({
+  role: JoinRoleSchema,
+  room: z.string().trim().min(1),
+  ttlSeconds: z.number().int().positive().max(7 * 24 * 60 * 60).optional(),
+});
+
+/**
+ * Issues a join token on behalf of an already authenticated client (Bearer token).
+ * Speakers may only hand out listener tokens for their own room, so they can share a
+ * listener link; moderators may issue any role for the rooms they control.
+ */
+export async function POST(request: NextRequest) {
+  const secret = getJoinTokenSecret();
+  if (!secret) {
+    return NextResponse.json({ error: "Join tokens are not configured on this server." }, { status: 503 });
+  }
+
+  const token = extractJoinToken(undefined, request.headers.get("authorization"));
+  const verification = token ? verifyJoinToken(token, secret) : null;
+  if (!verification || !verification.success) {
+    return NextResponse.json({ error: verification ? verification.reason : "Missing bearer token." }, { status: 401 });
+  }
+  const issuer = verification.claims;
+
+  const body = TokenRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json({ error: body.error.issues[0]?.message ?? "Invalid request." }, { status: 400 });
+  }
+  const { role, room, ttlSeconds } = body.data;
+
+  let mayIssue = false;
+  if (issuer.role === "moderator") {
+    mayIssue = canAccessRoom(issuer, room);
+  } else if (issuer.role === "speaker") {
+    mayIssue = role === "listener" && room !== ANY_ROOM && canAccessRoom(issuer, room);
+  }
+  if (!mayIssue) {
+    return NextResponse.json({ error: `A ${issuer.role} token cannot issue ${role} tokens for room '${room}'.` }, { status: 403 });
+  }
+
+  // Issued tokens never outlive the token that requested them
+  const remainingSeconds = issuer.exp - Math.floor(Date.now() / 1000);
+  const issued = signJoinToken({ role, room, subject: issuer.sub, ttlSeconds: Math.min(ttlSeconds ?? remainingSeconds, remainingSeconds) }, secret);
+  return NextResponse.json({ token: issued, role, room });
+}
@@ -2,18 +2,50 @@
 "use client";
 
 import { LinguaVoxLogo } from "@/components/icons/LinguaVoxLogo";
+import { LanguageSelector } from "@/components/LanguageSelector";
+import { supportedLanguages } from "@/lib/languages";
+import { PROTOCOL_VERSION, SLOW_CONSUMER_CLOSE_CODE, decodeSynthesizedAudioFrame, encodeClientMessage, parseServerMessage } from "@/lib/protocol";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Volume2, WifiOff, Loader2, Mic, PlayCircle, AudioLines } from "lucide-react";
 import Link from "next/link";
 import { useEffect, useRef, useState, useCallback } from "react";
 
 type ListenerState = "connecting" | "connected" | "disconnected" | "error";
 
+const DEFAULT_ROOM_ID = "default";
+const DEFAULT_TARGET_LANGUAGE = "en";
+const DEFAULT_HISTORY_SECONDS = 600; // Quem entra atrasado recebe os últimos 10 minutos (?history=0 desativa)
+const MAX_TRANSLATION_LOG_ENTRIES = 200;
+
+interface TranslationLogEntry {
+  segmentId: string;
+  speakerId: string;
+  speakerName: string;
+  text: string;
+  history: boolean; // Reenviado pelo servidor ao se inscrever; exibido, mas não falado
+}
+
+/** O que cada orador da sala está dizendo agora (texto original, antes da tradução). */
+interface LiveSpeaker {
+  speakerId: string;
+  speakerName: string;
+  finalText: string;
+  partialText: string;
+  talking: boolean;
+}
+
 export default function ListenerPage() {
   const ws = useRef<WebSocket | null>(null);
   const [listenerState, setListenerState] = useState<ListenerState>("connecting");
   const [lastMessage, setLastMessage] = useState<string | null>(null);
+  const [liveSpeakers, setLiveSpeakers] = useState<LiveSpeaker[]>([]); // Na ordem em que falaram pela primeira vez
+  const [roomId, setRoomId] = useState<string>(DEFAULT_ROOM_ID);
+  const roomIdRef = useRef<string>(DEFAULT_ROOM_ID);
+  const [targetLanguage, setTargetLanguage] = useState<string>(DEFAULT_TARGET_LANGUAGE);
+  const targetLanguageRef = useRef<string>(DEFAULT_TARGET_LANGUAGE);
   const utteranceQueueRef = useRef<SpeechSynthesisUtterance[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
@@ -21,11 +53,29 @@ export default function ListenerPage() {
   const voiceLoadFallbackIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const speakNextInQueueRef = useRef<() => void>(() => {});
   const lastSuccessfullyEnqueuedTextRef = useRef<string | null>(null);
+  // Voz sintetizada no servidor: clipes Opus/WebM recebidos como frames binários, tocados em ordem
+  const [serverAudioRequested, setServerAudioRequested] = useState(true);
+  const serverAudioRequestedRef = useRef(true);
+  const [serverAudioActive, setServerAudioActive] = useState(false);
+  const serverAudioActiveRef = useRef(false);
+  const audioClipQueueRef = useRef<Blob[]>([]);
+  const currentAudioRef = useRef<HTMLAudioElement | null>(null);
+  const playNextAudioClipRef = useRef<() => void>(() => {});
+  const [translationLog, setTranslationLog] = useState<TranslationLogEntry[]>([]);
+  const lastLoggedSegmentIdRef = useRef<string | null>(null);
+  const historySecondsRef = useRef<number>(DEFAULT_HISTORY_SECONDS);
+  // Uma voz por orador: o servidor sintetiza cada orador com outra voz; a voz do navegador também alterna
+  const [voicePerSpeaker, setVoicePerSpeaker] = useState(false);
+  const voicePerSpeakerRef = useRef(false);
+  const speakerOrderRef = useRef<Map<string, number>>(new Map()); // speakerId -> ordem de chegada (0 = primeiro)
+  const utteranceSpeakerIndexRef = useRef<WeakMap<SpeechSynthesisUtterance, number>>(new WeakMap());
 
   const getWebSocketUrl = () => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsPort = process.env.NEXT_PUBLIC_WEBSOCKET_PORT || '3001';
-    return `${protocol}//${window.location.hostname}:${wsPort}`;
+    // O token de acesso (?token=) da URL da página é repassado ao servidor WebSocket
+    const token = new URLSearchParams(window.location.search).get("token")?.trim();
+    return `${protocol}//${window.location.hostname}:${wsPort}${token ? `?token=${encodeURIComponent(token)}` : ""}`;
   };
 
   const loadVoices = useCallback(() => {
@@ -103,6 +153,12 @@ export default function ListenerPage() {
         let voice = availableVoices.find(v => v.lang.toLowerCase().startsWith(targetLangPrefixLC) && v.default === true);
         if (!voice) voice = availableVoices.find(v => v.lang.toLowerCase().startsWith(targetLangPrefixLC));
         if (!voice && targetLangLC !== targetLangPrefixLC) voice = availableVoices.find(v => v.lang.toLowerCase() === targetLangLC);
+        const speakerIndex = utteranceSpeakerIndexRef.current.get(utterance) ?? 0;
+        if (voicePerSpeakerRef.current && speakerIndex > 0) {
+          // O primeiro orador fica com a voz padrão; os demais alternam entre as outras vozes do idioma
+          const otherVoices = availableVoices.filter(v => v.lang.toLowerCase().startsWith(targetLangPrefixLC) && v !== voice);
+          if (otherVoices.length > 0) voice = otherVoices[(speakerIndex - 1) % otherVoices.length];
+        }
         if (voice) {
           utterance.voice = voice;
           utterance.lang = voice.lang; // Use the voice's lang for potentially better compatibility
@@ -146,6 +202,46 @@ export default function ListenerPage() {
     speakNextInQueueRef.current = speakNextInQueue;
   }, [speakNextInQueue]);
 
+  const playNextAudioClip = useCallback(() => {
+    if (!audioActivated || currentAudioRef.current) return;
+    const clip = audioClipQueueRef.current.shift();
+    if (!clip) {
+      setIsSpeaking(false);
+      return;
+    }
+    const url = URL.createObjectURL(clip);
+    const audio = new Audio(url);
+    currentAudioRef.current = audio;
+    setIsSpeaking(true);
+    const finish = () => {
+      URL.revokeObjectURL(url);
+      if (currentAudioRef.current === audio) currentAudioRef.current = null;
+      playNextAudioClipRef.current();
+    };
+    audio.onended = finish;
+    audio.onerror = () => {
+      console.error("[Listener] Erro ao reproduzir áudio sintetizado pelo servidor.");
+      finish();
+    };
+    audio.play().catch((e) => {
+      console.error("[Listener] Falha ao iniciar reprodução do áudio do servidor:", e);
+      setLastMessage("Não foi possível reproduzir o áudio. Ative o áudio novamente.");
+      finish();
+    });
+  }, [audioActivated]);
+
+  useEffect(() => {
+    playNextAudioClipRef.current = playNextAudioClip;
+  }, [playNextAudioClip]);
+
+  const stopServerAudio = useCallback(() => {
+    audioClipQueueRef.current = [];
+    if (currentAudioRef.current) {
+      currentAudioRef.current.pause();
+      currentAudioRef.current = null;
+    }
+  }, []);
+
   const handleActivateAudio = useCallback(() => {
     setAudioActivated(true);
     setLastMessage("Áudio ativado pelo usuário. Aguardando traduções...");
@@ -181,11 +277,106 @@ export default function ListenerPage() {
         setIsSpeaking(false); // Ensure isSpeaking is false on error
         speakNextInQueueRef.current();
     }
+    playNextAudioClipRef.current();
   }, [availableVoices, setIsSpeaking]); // Added setIsSpeaking to dependencies
 
+  /**
+   * Inscreve-se na sala pedindo o que foi perdido: desde o último segmento já exibido ou,
+   * na primeira inscrição (ou após trocar de idioma), os últimos historySeconds.
+   */
+  const subscribeToRoom = useCallback((socket: WebSocket) => {
+    const lastSegmentId = lastLoggedSegmentIdRef.current;
+    const catchUp = lastSegmentId
+      ? { sinceSegmentId: lastSegmentId }
+      : historySecondsRef.current > 0 ? { historySeconds: historySecondsRef.current } : {};
+    socket.send(encodeClientMessage({
+      action: "subscribe_audio",
+      roomId: roomIdRef.current,
+      targetLanguage: targetLanguageRef.current,
+      audio: serverAudioRequestedRef.current,
+      voicePerSpeaker: voicePerSpeakerRef.current,
+      ...catchUp,
+    }));
+  }, []);
+
+  const appendToTranslationLog = useCallback((entry: TranslationLogEntry) => {
+    lastLoggedSegmentIdRef.current = entry.segmentId;
+    setTranslationLog(prev => prev.some(existing => existing.segmentId === entry.segmentId)
+      ? prev
+      : [...prev, entry].slice(-MAX_TRANSLATION_LOG_ENTRIES));
+  }, []);
+
+  const handleTargetLanguageChange = useCallback((value: string) => {
+    targetLanguageRef.current = value;
+    setTargetLanguage(value);
+    // Drop anything queued in the previous language and re-subscribe with the new one
+    if (typeof window !== 'undefined' && window.speechSynthesis) window.speechSynthesis.cancel();
+    utteranceQueueRef.current = [];
+    stopServerAudio();
+    setIsSpeaking(false);
+    lastSuccessfullyEnqueuedTextRef.current = null;
+    // O histórico do idioma anterior não serve mais; pede o do novo idioma
+    lastLoggedSegmentIdRef.current = null;
+    setTranslationLog([]);
+    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
+      console.log(`[Listener] Idioma alterado para ${value}. Reinscrevendo na sala ${roomIdRef.current}.`);
+      subscribeToRoom(ws.current);
+    }
+  }, [stopServerAudio, subscribeToRoom]);
+
+  const handleServerAudioChange = useCallback((checked: boolean) => {
+    serverAudioRequestedRef.current = checked;
+    setServerAudioRequested(checked);
+    if (typeof window !== 'undefined' && window.speechSynthesis) window.speechSynthesis.cancel();
+    utteranceQueueRef.current = [];
+    stopServerAudio();
+    setIsSpeaking(false);
+    if (ws.current && ws.current.readyState === WebSocket.OPEN) {
+      console.log(`[Listener] Voz do servidor ${checked ? "ativada" : "desativada"}. Reinscrevendo na sala ${roomIdRef.current}.`);
+      subscribeToRoom(ws.current);
+    }
+  }, [stopServerAudio, subscribeToRoom]);
+
+  const handleVoicePerSpeakerChange = useCallback((checked: boolean) => {
+    voicePerSpeakerRef.current = checked;
+    setVoicePerSpeaker(checked);
+    // A voz do navegador é escolhida na hora de falar; só a do servidor precisa de nova inscrição
+    if (serverAudioActiveRef.current && ws.current && ws.current.readyState === WebSocket.OPEN) {
+      console.log(`[Listener] Uma voz por orador ${checked ? "ativada" : "desativada"}. Reinscrevendo na sala ${roomIdRef.current}.`);
+      subscribeToRoom(ws.current);
+    }
+  }, [subscribeToRoom]);
+
+  /** Atualiza (ou acrescenta) a linha ao vivo de um orador. */
+  const updateLiveSpeaker = useCallback((speakerId: string, speakerName: string, changes: Partial<LiveSpeaker>) => {
+    setLiveSpeakers(prev => prev.some(speaker => speaker.speakerId === speakerId)
+      ? prev.map(speaker => speaker.speakerId === speakerId ? { ...speaker, speakerName, ...changes } : speaker)
+      : [...prev, { speakerId, speakerName, finalText: "", partialText: "", talking: false, ...changes }]);
+  }, []);
+
+  /** Ordem de chegada do orador, que escolhe sua voz quando há uma voz por orador. */
+  const getSpeakerIndex = useCallback((speakerId: string): number => {
+    const order = speakerOrderRef.current;
+    if (!order.has(speakerId)) order.set(speakerId, order.size);
+    return order.get(speakerId)!;
+  }, []);
+
   useEffect(() => {
     console.log("[Listener] useEffect principal EXECUTANDO. Conectando WebSocket. lastSuccessfullyEnqueuedTextRef.current no início:", lastSuccessfullyEnqueuedTextRef.current);
     const WS_URL = getWebSocketUrl();
+    const searchParams = new URLSearchParams(window.location.search);
+    const roomFromUrl = searchParams.get("room")?.trim() || DEFAULT_ROOM_ID;
+    const languageFromUrl = searchParams.get("lang")?.trim();
+    const historyFromUrl = parseInt(searchParams.get("history") || "", 10);
+    if (Number.isFinite(historyFromUrl) && historyFromUrl >= 0) {
+      historySecondsRef.current = historyFromUrl;
+    }
+    roomIdRef.current = roomFromUrl;
+    setRoomId(roomFromUrl);
+    if (languageFromUrl && supportedLanguages.some(lang => lang.code === languageFromUrl)) {
+      targetLanguageRef.current = languageFromUrl;
+      setTargetLanguage(languageFromUrl);
+    }
     setListenerState("connecting");
 
     if (ws.current && ws.current.readyState !== WebSocket.CLOSED) {
@@ -195,6 +386,7 @@ export default function ListenerPage() {
       ws.current = null;
     }
     const newWs = new WebSocket(WS_URL);
+    newWs.binaryType = "arraybuffer"; // Frames binários trazem a fala sintetizada pelo servidor
     ws.current = newWs;
 
     newWs.onopen = () => {
@@ -203,17 +395,55 @@ export default function ListenerPage() {
       setListenerState("connected");
       setLastMessage("Conectado. Aguardando ativação de áudio se necessário.");
       lastSuccessfullyEnqueuedTextRef.current = null; // Reset on new connection
-      console.log("[Listener] onopen: Resetando lastSuccessfullyEnqueuedTextRef.current para null.");
-      newWs.send(JSON.stringify({ action: "subscribe_audio" }));
+      console.log("[Listener] onopen: Resetando lastSuccessfullyEnqueuedTextRef.current para null. Enviando hello.");
+      // A inscrição só é enviada depois que o servidor aceitar a versão do protocolo ('welcome')
+      newWs.send(encodeClientMessage({ action: "hello", protocolVersion: PROTOCOL_VERSION }));
     };
 
     newWs.onmessage = (event) => {
       if (ws.current !== newWs) { console.log("[Listener] onmessage: Conexão antiga, ignorando mensagem."); return; }
+      if (event.data instanceof ArrayBuffer) {
+        const frame = decodeSynthesizedAudioFrame(event.data);
+        if (!frame.success) {
+          console.error("[Listener] Frame de áudio inválido:", frame.message);
+          return;
+        }
+        const { header, audio } = frame.data;
+        if (header.targetLanguage !== targetLanguageRef.current) return; // Sobra de uma inscrição anterior
+        console.log(`[Listener] Áudio sintetizado recebido para o segmento ${header.segmentId} de ${header.speakerName} (${audio.byteLength} bytes).`);
+        audioClipQueueRef.current.push(new Blob([audio], { type: header.mimeType }));
+        playNextAudioClipRef.current();
+        return;
+      }
+      const parsed = parseServerMessage(event.data as string);
+      if (!parsed.success) {
+        console.error("[Listener] Mensagem do servidor não reconhecida:", parsed.message, "Raw data:", event.data);
+        setLastMessage("Erro ao processar dados do servidor.");
+        return;
+      }
       try {
-        const serverMessage = JSON.parse(event.data as string);
+        const serverMessage = parsed.data;
         console.log("[Listener] Mensagem parseada recebida. Tipo:", serverMessage.type, "Conteúdo (primeiros 100 chars):", JSON.stringify(serverMessage).substring(0,100));
         
-        if (serverMessage.type === "translated_text_for_listener" && serverMessage.text && serverMessage.targetLanguage) {
+        if (serverMessage.type === "welcome") {
+          console.log(`[Listener] Handshake concluído (protocolo v${serverMessage.protocolVersion}). Inscrevendo na sala ${roomIdRef.current}.`);
+          subscribeToRoom(newWs);
+        } else if (serverMessage.type === "translated_text_for_listener") {
+          if (!serverMessage.text) return;
+          if (serverMessage.segmentId) {
+            appendToTranslationLog({
+              segmentId: serverMessage.segmentId,
+              speakerId: serverMessage.speakerId,
+              speakerName: serverMessage.speakerName,
+              text: serverMessage.text,
+              history: Boolean(serverMessage.history),
+            });
+          }
+          if (serverMessage.history) {
+            // Recuperação de histórico: apenas exibido
+            setLastMessage(`Histórico recebido: "${serverMessage.text.substring(0,30)}..."`);
+            return;
+          }
           const textToSpeak = serverMessage.text;
           // Normalize by trimming leading/trailing whitespace for comparison
           const normalizedTextToSpeak = textToSpeak.trim();
@@ -229,19 +459,27 @@ export default function ListenerPage() {
           
           setLastMessage(`Texto traduzido recebido para ${serverMessage.targetLanguage}: "${textToSpeak.substring(0,30)}..." (${new Date().toLocaleTimeString()})`);
 
+          if (serverAudioActiveRef.current) {
+            // A fala chega do servidor como frame binário; não usar a síntese do navegador
+            lastSuccessfullyEnqueuedTextRef.current = textToSpeak;
+            return;
+          }
+
           // Split into sentences to avoid very long utterances, if SpeechSynthesis supports it well.
           // This can be improved with more robust sentence splitting if needed.
-          const sentences = textToSpeak.match(/[^.!?]+(?:[.!?]+["']?|$)/g) || [];
+          const sentences: string[] = textToSpeak.match(/[^.!?]+(?:[.!?]+["']?|$)/g) || [];
           if (sentences.length === 0 && textToSpeak.trim()) { // If no sentences found but text exists, treat as one sentence
             sentences.push(textToSpeak.trim());
           }
           
           let utterancesAddedCount = 0;
+          const speakerIndex = getSpeakerIndex(serverMessage.speakerId);
           sentences.forEach(sentence => {
             const trimmedSentence = sentence.trim();
             if (trimmedSentence) {
               const utterance = new SpeechSynthesisUtterance(trimmedSentence);
               utterance.lang = serverMessage.targetLanguage; // Set language for TTS
+              utteranceSpeakerIndexRef.current.set(utterance, speakerIndex);
               utteranceQueueRef.current.push(utterance);
               utterancesAddedCount++;
             }
@@ -256,16 +494,30 @@ export default function ListenerPage() {
              console.warn(`[Listener] Nenhuma utterance adicionada à fila para o texto: "${textToSpeak.substring(0, 50)}..." (Sentenças detectadas: ${sentences.length})`);
           }
 
-        } else if (serverMessage.message) {
-          setLastMessage(serverMessage.message);
-        } else if (serverMessage.error) {
-           setLastMessage(`Erro do servidor: ${serverMessage.error}`);
-           console.error("[Listener] Erro do servidor WebSocket:", serverMessage.error);
+        } else if (serverMessage.type === "speech_start") {
+          updateLiveSpeaker(serverMessage.speakerId, serverMessage.speakerName, { talking: true });
+        } else if (serverMessage.type === "speech_end") {
+          updateLiveSpeaker(serverMessage.speakerId, serverMessage.speakerName, { talking: false });
+        } else if (serverMessage.type === "transcription_partial") {
+          updateLiveSpeaker(serverMessage.speakerId, serverMessage.speakerName, { partialText: serverMessage.text });
+        } else if (serverMessage.type === "transcription_final") {
+          // Only translations are spoken; the source text is shown for reference
+          updateLiveSpeaker(serverMessage.speakerId, serverMessage.speakerName, { finalText: serverMessage.text, partialText: "" });
+        } else if (serverMessage.type === "subscribed") {
+          serverAudioActiveRef.current = serverMessage.audio;
+          setServerAudioActive(serverMessage.audio);
+          setLastMessage(`Inscrito na sala '${serverMessage.roomId}' (${serverMessage.targetLanguage}, ${serverMessage.audio ? "voz do servidor" : "voz do navegador"}).`);
+        } else if (serverMessage.type === "error") {
+           setLastMessage(`Erro do servidor: ${serverMessage.message}`);
+           console.error(`[Listener] Erro do servidor WebSocket (${serverMessage.code}):`, serverMessage.message);
+        } else if (serverMessage.type === "stream_started" || serverMessage.type === "stream_stopped" || serverMessage.type === "stream_resumed") {
+            // Only relevant to the speaker that sent the request
         } else {
-            console.warn("[Listener] Mensagem do servidor não reconhecida:", serverMessage);
+            const unhandled: never = serverMessage; // Compile error if a server message type is not handled
+            console.warn("[Listener] Mensagem do servidor não reconhecida:", unhandled);
         }
       } catch (e) {
-        console.error("[Listener] Erro ao processar mensagem do servidor (não JSON ou outro erro):", e, "Raw data:", event.data);
+        console.error("[Listener] Erro ao processar mensagem do servidor:", e, "Raw data:", event.data);
         setLastMessage("Erro ao processar dados do servidor.");
       }
     };
@@ -284,7 +536,11 @@ export default function ListenerPage() {
       if (ws.current !== newWs && ws.current !== null) { console.log(`[Listener] onclose: Conexão antiga (URL: ${newWs.url}, Código: ${event.code}). Ignorando.`); return; }
       console.log(`[Listener] WebSocket desconectado (URL: ${newWs.url}). Código: ${event.code}, Limpo: ${event.wasClean}, Razão: ${event.reason}`);
       setListenerState("disconnected");
-      if (event.code !== 1000) { // 1000 is normal closure
+      if (event.code === 1006 && !event.wasClean && new URLSearchParams(window.location.search).get("token") === null) {
+        setLastMessage("Conexão recusada. Este servidor pode exigir um link de ouvinte com token de acesso.");
+      } else if (event.code === SLOW_CONSUMER_CLOSE_CODE) {
+        setLastMessage("A conexão não acompanhou as traduções e foi encerrada pelo servidor. Recarregue a página.");
+      } else if (event.code !== 1000) { // 1000 is normal closure
         setLastMessage("Desconectado. Tente recarregar a página.");
       } else {
         setLastMessage("Desconectado do servidor.");
@@ -294,6 +550,7 @@ export default function ListenerPage() {
       lastSuccessfullyEnqueuedTextRef.current = null;
       if(typeof window !== 'undefined' && window.speechSynthesis) window.speechSynthesis.cancel();
       utteranceQueueRef.current = [];
+      stopServerAudio();
       if (ws.current === newWs) ws.current = null; // Clear the ref if it's this specific instance
     };
 
@@ -306,6 +563,7 @@ export default function ListenerPage() {
       if (ws.current === newWs) ws.current = null; 
       if(typeof window !== 'undefined' && window.speechSynthesis) window.speechSynthesis.cancel();
       utteranceQueueRef.current = []; 
+      stopServerAudio();
       setIsSpeaking(false); // Reset speaking state
       lastSuccessfullyEnqueuedTextRef.current = null;
       console.log("[Listener] Cleanup do useEffect principal finalizado. lastSuccessfullyEnqueuedTextRef.current é:", lastSuccessfullyEnqueuedTextRef.current);
@@ -313,6 +571,9 @@ export default function ListenerPage() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Empty dependency array to run once on mount and cleanup on unmount
 
+  // Os nomes só aparecem no histórico quando mais de um orador falou
+  const hasSeveralSpeakers = new Set(translationLog.map(entry => entry.speakerId)).size > 1;
+
   return (
     <div className="flex flex-col items-center min-h-screen p-4 md:p-8 bg-background text-foreground">
       <header className="w-full max-w-3xl mb-8">
@@ -339,10 +600,31 @@ export default function ListenerPage() {
             </CardTitle>
             <CardDescription>
               Esta página reproduzirá automaticamente a tradução do áudio capturado na página de transcrição.
+              {" "}Sala: <strong>{roomId}</strong>.
               {!audioActivated && listenerState === "connected" && " (Requer ativação de áudio abaixo)"}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            <div className="flex justify-center">
+              <LanguageSelector
+                id="listener-target-language"
+                label="Idioma da Tradução"
+                value={targetLanguage}
+                onValueChange={handleTargetLanguageChange}
+                languages={supportedLanguages}
+              />
+            </div>
+            <div className="flex items-center justify-center space-x-2">
+              <Switch id="server-audio" checked={serverAudioRequested} onCheckedChange={handleServerAudioChange} />
+              <Label htmlFor="server-audio" className="text-sm cursor-pointer">Voz sintetizada no servidor</Label>
+            </div>
+            <div className="flex items-center justify-center space-x-2">
+              <Switch id="voice-per-speaker" checked={voicePerSpeaker} onCheckedChange={handleVoicePerSpeakerChange} />
+              <Label htmlFor="voice-per-speaker" className="text-sm cursor-pointer">Uma voz por orador</Label>
+            </div>
+            {serverAudioRequested && !serverAudioActive && listenerState === "connected" && (
+              <p className="text-xs text-muted-foreground text-center">Servidor sem síntese de voz. Usando a voz do navegador.</p>
+            )}
             {!audioActivated && listenerState === "connected" && (
               <div className="flex justify-center">
                 <Button onClick={handleActivateAudio} className="px-6 py-3 text-base bg-primary hover:bg-primary/90 text-primary-foreground">
@@ -378,6 +660,30 @@ export default function ListenerPage() {
               )}
             </div>
 
+            {listenerState === "connected" && liveSpeakers.some(speaker => speaker.talking) && (
+              <p className="text-xs text-accent text-center animate-pulse">
+                {liveSpeakers.length > 1
+                  ? `${liveSpeakers.filter(speaker => speaker.talking).map(speaker => speaker.speakerName).join(", ")} falando...`
+                  : "Orador falando..."}
+              </p>
+            )}
+            {liveSpeakers.filter(speaker => speaker.finalText || speaker.partialText).map(speaker => (
+              <p key={speaker.speakerId} className="text-sm text-center" aria-live="polite">
+                {liveSpeakers.length > 1 && <span className="font-semibold">{speaker.speakerName}: </span>}
+                {speaker.finalText}
+                {speaker.partialText && <span className="text-muted-foreground italic">{speaker.finalText ? " " : ""}{speaker.partialText}</span>}
+              </p>
+            ))}
+            {translationLog.length > 0 && (
+              <div className="max-h-[240px] overflow-y-auto border border-border rounded-md p-3 space-y-1 text-sm" aria-label="Histórico de traduções">
+                {translationLog.map(entry => (
+                  <p key={entry.segmentId} className={entry.history ? "text-muted-foreground" : ""}>
+                    {hasSeveralSpeakers && <span className="font-semibold">{entry.speakerName}: </span>}
+                    {entry.text}
+                  </p>
+                ))}
+              </div>
+            )}
             {lastMessage && (
               <p className="text-sm text-muted-foreground text-center mt-2">
                 Última ação: {lastMessage}
@@ -5,7 +5,7 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
-import { Mic, MicOff, Loader2, AlertTriangle, LanguagesIcon, ScreenShare, AudioLines } from "lucide-react";
+import { Mic, MicOff, Loader2, AlertTriangle, LanguagesIcon, ScreenShare, AudioLines, Download, BookText } from "lucide-react";
 import { LanguageSelector } from "@/components/LanguageSelector";
 import { supportedLanguages } from "@/lib/languages";
 import { useToast } from "@/hooks/use-toast";
@@ -13,22 +13,64 @@ import { LinguaVoxLogo } from "@/components/icons/LinguaVoxLogo";
 import { Separator } from "@/components/ui/separator";
 import Link from "next/link";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { PCM_INPUT_SAMPLE_RATE, PROTOCOL_VERSION, SLOW_CONSUMER_CLOSE_CODE, encodeAudioFrameHeader, encodeClientMessage, parseServerMessage } from "@/lib/protocol";
 
 
 type StreamingState = "idle" | "recognizing" | "error" | "stopping";
 type AudioInputMode = "microphone" | "system";
+type CaptureFormat = "recorder" | "pcm";
 
 const MEDIA_RECORDER_TIMESLICE_MS = 1000;
+const DEFAULT_ROOM_ID = "default";
+const AUTO_SOURCE_LANGUAGE = "auto"; // Whisper detects the spoken language segment by segment
+const TRANSCRIPT_EXPORT_FORMATS = ["txt", "json", "srt", "vtt"] as const;
+const RESUME_WINDOW_MS = 30000; // Matches the server's default RESUME_GRACE_MS
+const MAX_PENDING_AUDIO_MS = 60000; // Audio kept until the stream starts or while reconnecting
+const PCM_CAPTURE_WORKLET_URL = "/worklets/pcm-capture-processor.js";
+const PCM_FRAME_MS = 100; // Frame length the worklet posts (its FRAME_SAMPLES at PCM_INPUT_SAMPLE_RATE)
+const AUDIO_STREAM_ID = 0; // This page runs one stream per connection
+
+/** Live nodes of the AudioWorklet capture mode, torn down together. */
+interface PcmCapture {
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+  stream: MediaStream;
+}
+
+function stopPcmCapture(capture: PcmCapture) {
+  capture.node.port.onmessage = null;
+  capture.source.disconnect();
+  capture.node.disconnect();
+  capture.stream.getTracks().forEach(track => track.stop());
+  capture.context.close().catch(closeError => console.warn("[Client] Error closing AudioContext", closeError));
+}
+
+/** Splits the comma-separated vocabulary field; undefined when empty so the message stays minimal. */
+function parseVocabulary(value: string): string[] | undefined {
+  const terms = value.split(",").map(term => term.trim()).filter(Boolean).slice(0, 100);
+  return terms.length > 0 ? terms.map(term => term.substring(0, 60)) : undefined;
+}
 
 export default function LinguaVoxPage() {
   const ws = useRef<WebSocket | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const pcmCaptureRef = useRef<PcmCapture | null>(null);
   const systemAudioStreamRef = useRef<MediaStream | null>(null);
   const { toast } = useToast();
 
   const [sourceLanguage, setSourceLanguage] = useState<string>("pt");
   const [targetLanguage, setTargetLanguage] = useState<string>("en");
+  const [roomId, setRoomId] = useState<string>(DEFAULT_ROOM_ID);
+  const [vocabulary, setVocabulary] = useState<string>(""); // Comma-separated names and jargon for Whisper
+  const [speakerName, setSpeakerName] = useState<string>(""); // Shown to listeners; the server names unnamed speakers
+  const [joinToken, setJoinToken] = useState<string>("");
+  const joinTokenRef = useRef<string>("");
+  useEffect(() => {
+    joinTokenRef.current = joinToken.trim();
+  }, [joinToken]);
 
   const [streamingState, setStreamingState] = useState<StreamingState>("idle");
   const streamingStateRef = useRef<StreamingState>(streamingState);
@@ -44,23 +86,45 @@ export default function LinguaVoxPage() {
     audioInputModeRef.current = audioInputMode;
   }, [audioInputMode]);
 
+  // "recorder": MediaRecorder chunks (WebM, MP4 or Ogg) the server decodes with FFmpeg; "pcm": 16 kHz Int16 frames from an AudioWorklet
+  const [captureFormat, setCaptureFormat] = useState<CaptureFormat>("recorder");
+  const captureFormatRef = useRef(captureFormat);
+  useEffect(() => {
+    captureFormatRef.current = captureFormat;
+  }, [captureFormat]);
+
   const [transcribedText, setTranscribedText] = useState<string>("");
+  const [partialText, setPartialText] = useState<string>("");
+  const [isSpeechDetected, setIsSpeechDetected] = useState<boolean>(false);
   const [translatedText, setTranslatedText] = useState<string>("");
+  const [detectedLanguage, setDetectedLanguage] = useState<{ language: string; probability?: number } | null>(null); // Source 'auto' only
+  const [glossaryWarning, setGlossaryWarning] = useState<string | null>(null); // Latest glossary rule a translation broke
+  const [isUploadingGlossary, setIsUploadingGlossary] = useState<boolean>(false);
+  const [sessionId, setSessionId] = useState<string | null>(null); // Recorded transcript of the current/last stream
+  const [isReconnecting, setIsReconnecting] = useState<boolean>(false);
+  const isReconnectingRef = useRef<boolean>(false);
+  const resumeTokenRef = useRef<string | null>(null); // Set while the server holds a stream for us
+  const pendingAudioChunksRef = useRef<Blob[]>([]); // Audio frames recorded while reconnecting, sent once resumed
+  const audioSequenceRef = useRef<number>(0); // Sequence number of the next audio frame
+  const resumeStreamRef = useRef<() => void>(() => {});
   const [isProcessingServer, setIsProcessingServer] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [supportedMimeType, setSupportedMimeType] = useState<string | null>(null);
+  const [isPcmCaptureSupported, setIsPcmCaptureSupported] = useState<boolean>(false);
 
 
   const getWebSocketUrl = () => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsPort = process.env.NEXT_PUBLIC_WEBSOCKET_PORT || '3001';
-    return `${protocol}//${window.location.hostname}:${wsPort}`;
+    // Browsers cannot set headers on WebSocket connections, so the join token travels in the query string
+    const tokenQuery = joinTokenRef.current ? `?token=${encodeURIComponent(joinTokenRef.current)}` : "";
+    return `${protocol}//${window.location.hostname}:${wsPort}${tokenQuery}`;
   };
 
   const connectWebSocket = useCallback(() => {
     return new Promise<void>((resolve, reject) => {
         const WS_URL = getWebSocketUrl();
-        console.log("[Client] Attempting to connect to WebSocket at:", WS_URL);
+        console.log("[Client] Attempting to connect to WebSocket at:", WS_URL.replace(/token=[^&]+/, "token=***"));
 
         // Clean up any existing WebSocket instance thoroughly before creating a new one.
         if (ws.current) {
@@ -87,9 +151,9 @@ export default function LinguaVoxPage() {
                 // or another connection attempt might be in progress.
                 return;
             }
-            console.log("[Client] WebSocket connected (client-side via newWs.onopen)");
-            setError(null); // Clear any previous connection errors
-            resolve();
+            console.log("[Client] WebSocket connected (client-side via newWs.onopen). Sending hello.");
+            // The connection is only usable once the server accepted our protocol version ('welcome')
+            newWs.send(encodeClientMessage({ action: "hello", protocolVersion: PROTOCOL_VERSION }));
         };
 
         newWs.onmessage = (event) => {
@@ -97,22 +161,90 @@ export default function LinguaVoxPage() {
                 console.log("[Client] onmessage: Stale WebSocket instance. Ignoring message.");
                 return;
             }
-            try {
-                const serverMessage = JSON.parse(event.data as string);
-                console.log("[Client] Message received from server:", serverMessage);
-
-                if (serverMessage.type === "translated_text_for_listener") {
+            const parsed = parseServerMessage(event.data as string);
+            if (!parsed.success) {
+                console.error("[Client] Unrecognized server message:", parsed.message, "Raw data:", event.data);
+                return;
+            }
+            const serverMessage = parsed.data;
+            console.log("[Client] Message received from server:", serverMessage);
+
+            switch (serverMessage.type) {
+                case "welcome":
+                    console.log(`[Client] Handshake complete (protocol v${serverMessage.protocolVersion}, client ${serverMessage.clientId}).`);
+                    setError(null); // Clear any previous connection errors
+                    resolve();
+                    break;
+                case "speech_start":
+                    setIsSpeechDetected(true);
+                    break;
+                case "speech_end":
+                    setIsSpeechDetected(false);
+                    break;
+                case "transcription_partial":
+                    setPartialText(serverMessage.text);
+                    break;
+                case "transcription_final":
+                    setTranscribedText(prev => prev ? prev.trim() + " " + serverMessage.text.trim() : serverMessage.text.trim());
+                    if (serverMessage.languageProbability !== undefined && serverMessage.language) {
+                        setDetectedLanguage({ language: serverMessage.language, probability: serverMessage.languageProbability });
+                    }
+                    break;
+                case "translated_text_for_listener":
                     setTranslatedText(prev => prev ? prev.trim() + " " + serverMessage.text.trim() : serverMessage.text.trim());
-                } else if (serverMessage.error) {
-                    console.error("[Client] Server WebSocket error:", serverMessage.error);
-                    setError(`Server error: ${serverMessage.error}`);
-                    toast({ title: "Translation Error", description: serverMessage.error, variant: "destructive" });
+                    if (serverMessage.glossaryViolations?.length) {
+                        setGlossaryWarning(serverMessage.glossaryViolations.map(violation => `"${violation.term}" should be "${violation.expected}"`).join(", "));
+                    }
+                    break;
+                case "error":
+                    console.error(`[Client] Server WebSocket error (${serverMessage.code}):`, serverMessage.message);
+                    if (serverMessage.code === "resume_failed" || serverMessage.code === "stream_failed") {
+                        isReconnectingRef.current = false;
+                        setIsReconnecting(false);
+                        resumeTokenRef.current = null;
+                        pendingAudioChunksRef.current = [];
+                        stopInternals();
+                        setStreamingState("error");
+                    } else if (serverMessage.code === "unsupported_input_format" || serverMessage.code === "unsupported_model") {
+                        stopInternals(); // The server did not start the stream; stop capturing for nothing
+                        setStreamingState("error");
+                    }
+                    setError(`Server error: ${serverMessage.message}`);
+                    toast({ title: serverMessage.code === "translation_failed" ? "Translation Error" : serverMessage.code === "forbidden" ? "Access Denied" : "Server Error", description: serverMessage.message, variant: "destructive" });
                     setIsProcessingServer(false);
-                } else if (serverMessage.message) {
-                    console.log("[Client] Informational message from server:", serverMessage.message);
+                    if (serverMessage.code === "unsupported_protocol_version") {
+                        reject(new Error(serverMessage.message));
+                    }
+                    break;
+                case "stream_started": {
+                    setSessionId(serverMessage.sessionId);
+                    resumeTokenRef.current = serverMessage.resumeToken;
+                    console.log(`[Client] Stream started (session ${serverMessage.sessionId}), speaking as '${serverMessage.speakerName}'.`);
+                    // Audio captured while the server was setting the stream up
+                    const pendingChunks = pendingAudioChunksRef.current;
+                    pendingAudioChunksRef.current = [];
+                    pendingChunks.forEach(chunk => newWs.send(chunk));
+                    break;
+                }
+                case "stream_resumed": {
+                    const pendingChunks = pendingAudioChunksRef.current;
+                    pendingAudioChunksRef.current = [];
+                    console.log(`[Client] Stream resumed (session ${serverMessage.sessionId}). Sending ${pendingChunks.length} buffered audio chunk(s).`);
+                    pendingChunks.forEach(chunk => newWs.send(chunk));
+                    isReconnectingRef.current = false;
+                    setIsReconnecting(false);
+                    setError(null);
+                    toast({ title: "Reconnected", description: "The transcription stream was resumed." });
+                    break;
+                }
+                case "stream_stopped":
+                case "subscribed":
+                    console.log("[Client] Informational message from server:", serverMessage);
+                    break;
+                default: {
+                    const unhandled: never = serverMessage; // Compile error if a server message type is not handled
+                    console.warn("[Client] Unhandled server message:", unhandled);
                 }
-            } catch (e) {
-                console.error("[Client] Error processing server message:", e, "Raw data:", event.data);
             }
         };
 
@@ -126,8 +258,15 @@ export default function LinguaVoxPage() {
                 // Do not reject here for stale instances, only if the *current* attempt fails.
                 return;
             }
+            if (isReconnectingRef.current || (streamingStateRef.current === "recognizing" && resumeTokenRef.current)) {
+                // Connection drops during a stream are handled by the resume logic in onclose
+                console.warn("[Client] WebSocket error during an active stream. Waiting for close to resume.", event);
+                ws.current = null;
+                reject(new Error("WebSocket connection error"));
+                return;
+            }
             console.error("[Client] WebSocket error (client-side):", event);
-            setError("WebSocket connection failed. Check console.");
+            setError("WebSocket connection failed. Check that the server is running and your join token is valid.");
             setIsProcessingServer(false);
             if (streamingStateRef.current !== "error") setStreamingState("error");
             toast({ title: "Connection Error", description: "Could not connect to WebSocket server.", variant: "destructive" });
@@ -141,6 +280,16 @@ export default function LinguaVoxPage() {
                 return;
             }
             console.log(`[Client] WebSocket disconnected (client-side). Code: ${event.code}, Reason: "${event.reason}", Clean: ${event.wasClean}.`);
+
+            if (event.code !== 1000 && resumeTokenRef.current && (streamingStateRef.current === "recognizing" || isReconnectingRef.current)) {
+                // Keep recording; the server holds our stream for a grace period
+                if (event.code === SLOW_CONSUMER_CLOSE_CODE) {
+                    console.warn("[Client] The server dropped this connection for falling behind on its messages. Resuming.");
+                }
+                if (ws.current === newWs) ws.current = null;
+                resumeStreamRef.current();
+                return;
+            }
             
             // Only set error and toast if the closure was unexpected and not part of a deliberate stop/unmount.
             if (event.code !== 1000 && streamingStateRef.current !== "idle" && streamingStateRef.current !== "stopping" && streamingStateRef.current !== "error") {
@@ -160,12 +309,18 @@ export default function LinguaVoxPage() {
   }, [toast]);
 
 
+  useEffect(() => {
+    const tokenFromUrl = new URLSearchParams(window.location.search).get("token")?.trim();
+    if (tokenFromUrl) setJoinToken(tokenFromUrl);
+  }, []);
+
   useEffect(() => {
     console.log("[Client] Main useEffect: Setting up...");
     const mimeTypes = [
       'audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4',
     ];
     const foundMimeType = mimeTypes.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+    setIsPcmCaptureSupported(typeof AudioWorkletNode !== 'undefined');
 
     if (foundMimeType) {
       console.log(`[Client] Using supported MimeType: ${foundMimeType}`);
@@ -204,6 +359,75 @@ export default function LinguaVoxPage() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Empty dependency array ensures this runs only on mount and unmount
 
+  /**
+   * Frames a captured chunk (stream id, sequence number, capture time) and sends it once the
+   * server confirmed the stream; until then, and while the connection is being restored, it is
+   * kept for 'stream_started'/'stream_resumed'. Chunks that do not fit in the buffer still use
+   * up their sequence number, so the server sees the gap.
+   */
+  const sendAudioChunk = useCallback((chunk: Blob | ArrayBuffer) => {
+    const header = encodeAudioFrameHeader({ streamId: AUDIO_STREAM_ID, sequence: audioSequenceRef.current++, captureTimestamp: Date.now() });
+    const frame = new Blob([header, chunk]); // Blobs are sent in order, with no copy into JS memory
+    if (resumeTokenRef.current && !isReconnectingRef.current && ws.current && ws.current.readyState === WebSocket.OPEN) {
+      ws.current.send(frame);
+      return;
+    }
+    const chunkMs = captureFormatRef.current === "pcm" ? PCM_FRAME_MS : MEDIA_RECORDER_TIMESLICE_MS;
+    if (pendingAudioChunksRef.current.length < MAX_PENDING_AUDIO_MS / chunkMs) {
+      pendingAudioChunksRef.current.push(frame);
+    }
+  }, []);
+
+
+  /** Opens the microphone or the shared screen/tab audio, per the selected audio source. Null when it has no audio. */
+  const openCaptureStream = useCallback(async (): Promise<MediaStream | null> => {
+    // Clean up previous system audio stream if switching to system audio or restarting
+    if (systemAudioStreamRef.current && systemAudioStreamRef.current.active && audioInputModeRef.current === "system") {
+        console.warn("[Client] Existing systemAudioStreamRef found. Stopping its tracks before getting new one.");
+        systemAudioStreamRef.current.getTracks().forEach(track => track.stop());
+        systemAudioStreamRef.current = null;
+    }
+
+    if (audioInputModeRef.current !== "system") {
+      return navigator.mediaDevices.getUserMedia({ audio: true });
+    }
+    const displayStream = await navigator.mediaDevices.getDisplayMedia({
+      video: true, audio: { suppressLocalAudioPlayback: false } as any,
+    });
+    const audioTracks = displayStream.getAudioTracks();
+    if (audioTracks.length === 0) {
+      const noAudioMsg = "No audio track found in the selected screen/tab source.";
+      setError(noAudioMsg);
+      toast({ title: "Audio Capture Error", description: noAudioMsg, variant: "destructive" });
+      displayStream.getTracks().forEach(track => track.stop());
+      return null;
+    }
+    const stream = new MediaStream(audioTracks);
+    displayStream.getVideoTracks().forEach(track => track.stop());
+    systemAudioStreamRef.current = stream;
+    return stream;
+  }, [toast, audioInputModeRef]);
+
+
+  const reportCaptureError = useCallback((err: any) => {
+    console.error(`[Client] Error starting audio capture (mode ${audioInputModeRef.current}, format ${captureFormatRef.current}):`, err);
+    let userMessage = `Failed to start audio capture: ${err.message}`;
+    if (err.name === "NotAllowedError" || err.name === "PermissionDeniedError") {
+       userMessage = audioInputModeRef.current === "system" ? "Permission for screen/tab capture denied." : "Microphone permission denied.";
+    } else if (err.name === "NotFoundError" || err.name === "DevicesNotFoundError"){
+       userMessage = audioInputModeRef.current === "system" ? "No screen/tab capture source found." : "No microphone found.";
+    } else if (err.name === "AbortError") {
+      userMessage = "Screen/tab capture canceled by user.";
+    }
+    setError(userMessage);
+    toast({ title: "Capture Error", description: userMessage, variant: "destructive" });
+    if (systemAudioStreamRef.current && audioInputModeRef.current === "system") {
+      systemAudioStreamRef.current.getTracks().forEach(track => track.stop());
+      systemAudioStreamRef.current = null;
+    }
+  }, [toast, audioInputModeRef]);
+
+
   const startMediaRecorder = useCallback(async (): Promise<boolean> => {
     console.log("[Client] Initiating startMediaRecorder");
     if (!supportedMimeType) {
@@ -228,42 +452,16 @@ export default function LinguaVoxPage() {
         mediaRecorderRef.current = null;
     }
 
-    // Clean up previous system audio stream if switching to system audio or restarting
-    if (systemAudioStreamRef.current && systemAudioStreamRef.current.active && audioInputModeRef.current === "system") {
-        console.warn("[Client] Existing systemAudioStreamRef found. Stopping its tracks before getting new one.");
-        systemAudioStreamRef.current.getTracks().forEach(track => track.stop());
-        systemAudioStreamRef.current = null;
-    }
-
-    let stream: MediaStream;
     try {
-      if (audioInputModeRef.current === "system") {
-        const displayStream = await navigator.mediaDevices.getDisplayMedia({
-          video: true, audio: { suppressLocalAudioPlayback: false } as any,
-        });
-        const audioTracks = displayStream.getAudioTracks();
-        if (audioTracks.length > 0) {
-            stream = new MediaStream(audioTracks);
-            displayStream.getVideoTracks().forEach(track => track.stop());
-            systemAudioStreamRef.current = stream;
-        } else {
-            const noAudioMsg = "No audio track found in the selected screen/tab source.";
-            setError(noAudioMsg);
-            toast({ title: "Audio Capture Error", description: noAudioMsg, variant: "destructive" });
-            displayStream.getTracks().forEach(track => track.stop());
-            return false;
-        }
-      } else {
-        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      }
+      const stream = await openCaptureStream();
+      if (!stream) return false;
 
       mediaRecorderRef.current = new MediaRecorder(stream, { mimeType: supportedMimeType });
       console.log(`[Client] New MediaRecorder created for mode: ${audioInputModeRef.current}. MimeType: ${supportedMimeType}. Stream ID: ${stream.id}`);
 
       mediaRecorderRef.current.ondataavailable = (event: BlobEvent) => {
-        if (event.data.size > 0 && ws.current && ws.current.readyState === WebSocket.OPEN) {
-          ws.current.send(event.data);
-        }
+        if (event.data.size === 0) return;
+        sendAudioChunk(event.data);
       };
 
       mediaRecorderRef.current.onstop = () => {
@@ -293,24 +491,54 @@ export default function LinguaVoxPage() {
       return true;
 
     } catch (err: any) {
-      console.error(`[Client] Error starting MediaRecorder (mode ${audioInputModeRef.current}):`, err);
-      let userMessage = `Failed to start audio capture: ${err.message}`;
-      if (err.name === "NotAllowedError" || err.name === "PermissionDeniedError") {
-         userMessage = audioInputModeRef.current === "system" ? "Permission for screen/tab capture denied." : "Microphone permission denied.";
-      } else if (err.name === "NotFoundError" || err.name === "DevicesNotFoundError"){
-         userMessage = audioInputModeRef.current === "system" ? "No screen/tab capture source found." : "No microphone found.";
-      } else if (err.name === "AbortError") {
-        userMessage = "Screen/tab capture canceled by user.";
-      }
-      setError(userMessage);
-      toast({ title: "Capture Error", description: userMessage, variant: "destructive" });
-      if (systemAudioStreamRef.current && audioInputModeRef.current === "system") {
-        systemAudioStreamRef.current.getTracks().forEach(track => track.stop());
-        systemAudioStreamRef.current = null;
-      }
+      reportCaptureError(err);
+      return false;
+    }
+  }, [supportedMimeType, toast, audioInputModeRef, openCaptureStream, sendAudioChunk, reportCaptureError]); // Added audioInputModeRef
+
+
+  /**
+   * AudioWorklet capture: the worklet downsamples to 16 kHz mono Int16 in the audio thread
+   * and posts 100 ms frames, which go to the server as raw PCM ('pcm' input format).
+   */
+  const startPcmCapture = useCallback(async (): Promise<boolean> => {
+    console.log("[Client] Initiating startPcmCapture");
+    if (!isPcmCaptureSupported) {
+      setError("AudioWorklet capture is not supported by this browser.");
+      toast({ title: "Recording Error", description: "AudioWorklet capture is not supported.", variant: "destructive" });
       return false;
     }
-  }, [supportedMimeType, toast, audioInputModeRef]); // Added audioInputModeRef
+    if (pcmCaptureRef.current) {
+      console.warn("[Client] Existing PCM capture found. Tearing it down before starting a new one.");
+      stopPcmCapture(pcmCaptureRef.current);
+      pcmCaptureRef.current = null;
+    }
+
+    let stream: MediaStream | null = null;
+    try {
+      stream = await openCaptureStream();
+      if (!stream) return false;
+
+      const context = new AudioContext();
+      await context.audioWorklet.addModule(PCM_CAPTURE_WORKLET_URL);
+      const source = context.createMediaStreamSource(stream);
+      const node = new AudioWorkletNode(context, "pcm-capture-processor");
+      node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => sendAudioChunk(event.data);
+      source.connect(node);
+      node.connect(context.destination); // Keeps the node pulled by the graph; it outputs silence
+      await context.resume();
+      pcmCaptureRef.current = { context, source, node, stream };
+      console.log(`[Client] PCM capture started for mode: ${audioInputModeRef.current}. Context rate ${context.sampleRate} Hz -> ${PCM_INPUT_SAMPLE_RATE} Hz. Stream ID: ${stream.id}`);
+      return true;
+
+    } catch (err: any) {
+      stream?.getTracks().forEach(track => track.stop());
+      reportCaptureError(err);
+      return false;
+    }
+  }, [isPcmCaptureSupported, toast, audioInputModeRef, openCaptureStream, sendAudioChunk, reportCaptureError]);
+
+
 
 
   const stopInternals = useCallback((isUnmounting = false) => {
@@ -330,6 +558,12 @@ export default function LinguaVoxPage() {
       }
       mediaRecorderRef.current = null;
     }
+
+    if (pcmCaptureRef.current) {
+      console.log("[Client] stopInternals: Tearing down PCM capture.");
+      stopPcmCapture(pcmCaptureRef.current);
+      pcmCaptureRef.current = null;
+    }
     
     if (systemAudioStreamRef.current && systemAudioStreamRef.current.active) {
         console.log(`[Client] stopInternals: Explicitly stopping systemAudioStreamRef tracks (isUnmounting: ${isUnmounting}).`);
@@ -339,12 +573,62 @@ export default function LinguaVoxPage() {
   }, []);
 
 
+  /**
+   * Reconnects after an unexpected drop and asks the server to reattach us to the same
+   * stream. MediaRecorder keeps running meanwhile; its chunks are buffered and flushed on
+   * 'stream_resumed', so the server-side transcriber sees a continuous recording.
+   */
+  const resumeStream = useCallback(async () => {
+    const resumeToken = resumeTokenRef.current;
+    if (isReconnectingRef.current || !resumeToken) return;
+    isReconnectingRef.current = true;
+    setIsReconnecting(true);
+    console.warn("[Client] Connection lost during streaming. Trying to resume the stream...");
+
+    const deadline = Date.now() + RESUME_WINDOW_MS;
+    let delayMs = 1000;
+    while (Date.now() < deadline && isReconnectingRef.current) {
+      await new Promise(r => setTimeout(r, delayMs));
+      if (!isReconnectingRef.current) return; // Stopped by the user meanwhile
+      try {
+        await connectWebSocket();
+        ws.current?.send(encodeClientMessage({ action: "resume_stream", resumeToken }));
+        return; // 'stream_resumed' or a 'resume_failed' error completes the reconnection
+      } catch (reconnectError: any) {
+        console.warn(`[Client] Reconnection attempt failed: ${reconnectError.message}`);
+      }
+      delayMs = Math.min(delayMs * 2, 8000);
+    }
+
+    if (isReconnectingRef.current) {
+      isReconnectingRef.current = false;
+      setIsReconnecting(false);
+      resumeTokenRef.current = null;
+      pendingAudioChunksRef.current = [];
+      stopInternals();
+      setError("Connection lost and could not be restored. Start a new transcription.");
+      setStreamingState("error");
+      toast({ title: "Connection Lost", description: "Could not reconnect to the server.", variant: "destructive" });
+    }
+  }, [connectWebSocket, stopInternals, toast]);
+
+  useEffect(() => {
+    resumeStreamRef.current = resumeStream;
+  }, [resumeStream]);
+
+
   const startTranscriptionCycle = useCallback(async () => {
-    console.log(`[Client] Attempting to start transcription cycle. Current state: ${streamingStateRef.current} Source Lang: ${sourceLanguage}, Target Lang: ${targetLanguage}, Audio Mode: ${audioInputModeRef.current}`);
+    console.log(`[Client] Attempting to start transcription cycle. Current state: ${streamingStateRef.current} Room: ${roomId}, Source Lang: ${sourceLanguage}, Target Lang: ${targetLanguage}, Audio Mode: ${audioInputModeRef.current}`);
 
     if (error) setError(null);
+    resumeTokenRef.current = null;
+    pendingAudioChunksRef.current = [];
+    audioSequenceRef.current = 0;
     setTranscribedText("");
+    setPartialText("");
     setTranslatedText("");
+    setDetectedLanguage(null);
+    setGlossaryWarning(null);
 
     try {
         // Ensure WebSocket is connected first
@@ -365,10 +649,11 @@ export default function LinguaVoxPage() {
             }
         }
         
-        // Then start media recorder
-        const mediaRecorderStarted = await startMediaRecorder();
+        // Then start capturing audio in the selected format
+        const isPcmCapture = captureFormatRef.current === "pcm";
+        const mediaRecorderStarted = isPcmCapture ? await startPcmCapture() : await startMediaRecorder();
         if (!mediaRecorderStarted) {
-          // startMediaRecorder handles setting its own error state and toast
+          // startMediaRecorder/startPcmCapture handle setting their own error state and toast
           setStreamingState("error"); // Ensure main state reflects this failure
           setIsProcessingServer(false);
           return;
@@ -379,11 +664,19 @@ export default function LinguaVoxPage() {
         setIsProcessingServer(true);
         
         console.log("[Client] Sending start_transcription_stream to server.");
-        ws.current.send(JSON.stringify({
+        ws.current.send(encodeClientMessage({
           action: 'start_transcription_stream',
+          roomId: roomId.trim() || DEFAULT_ROOM_ID,
           language: sourceLanguage,
           targetLanguage: targetLanguage,
-          model: 'base'
+          model: 'base',
+          streamId: AUDIO_STREAM_ID,
+          vocabulary: parseVocabulary(vocabulary),
+          ...(speakerName.trim() ? { speakerName: speakerName.trim() } : {}),
+          // The server picks its demuxer from the recorder's actual MIME type (WebM, MP4 on Safari, Ogg on Firefox)
+          ...(isPcmCapture
+            ? { inputFormat: "pcm" }
+            : { mimeType: mediaRecorderRef.current?.mimeType || supportedMimeType || undefined }),
         }));
 
         toast({ title: audioInputModeRef.current === "microphone" ? "Microphone Activated" : "Screen/Tab Capture Activated", description: `Streaming audio (mode: ${audioInputModeRef.current})...` });
@@ -396,8 +689,8 @@ export default function LinguaVoxPage() {
         setIsProcessingServer(false);
     }
   }, [
-    sourceLanguage, targetLanguage, connectWebSocket, toast, 
-    startMediaRecorder, stopInternals, error, audioInputModeRef
+    sourceLanguage, targetLanguage, roomId, vocabulary, speakerName, connectWebSocket, toast, 
+    startMediaRecorder, startPcmCapture, stopInternals, error, audioInputModeRef, supportedMimeType
   ]);
 
 
@@ -406,12 +699,16 @@ export default function LinguaVoxPage() {
     
     // Set stopping state immediately to prevent new start attempts and update UI
     setStreamingState("stopping"); 
+    isReconnectingRef.current = false;
+    setIsReconnecting(false);
+    resumeTokenRef.current = null;
+    pendingAudioChunksRef.current = [];
 
     stopInternals(); // Stop MediaRecorder and associated streams first
 
     if (ws.current && ws.current.readyState === WebSocket.OPEN) {
       console.log("[Client] Sending stop_transcription_stream to server.");
-      ws.current.send(JSON.stringify({ action: 'stop_transcription_stream' }));
+      ws.current.send(encodeClientMessage({ action: 'stop_transcription_stream' }));
     } else {
       console.warn("[Client] WebSocket not open. Cannot send stop_transcription_stream. Resources cleaned locally.");
     }
@@ -420,6 +717,7 @@ export default function LinguaVoxPage() {
     // setIsProcessingServer(false); // Should already be false or become false from WS messages/errors
     // No, set it explicitly
     setIsProcessingServer(false);
+    setIsSpeechDetected(false);
     setStreamingState("idle"); 
     toast({title: "Transcription Stopped"});
     if (error && streamingStateRef.current === "idle") setError(null); // Clear error if stopping successfully to idle
@@ -439,7 +737,58 @@ export default function LinguaVoxPage() {
   };
 
 
+  const handleOpenListenerPage = async (event: React.MouseEvent<HTMLAnchorElement>) => {
+    const targetRoomId = roomId.trim() || DEFAULT_ROOM_ID;
+    const speakerToken = joinTokenRef.current;
+    if (!speakerToken) return; // Open server: the plain link works as is
+    event.preventDefault();
+    try {
+      // Listeners need a token of their own; ours is only used to ask the server for one
+      const response = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${speakerToken}` },
+        body: JSON.stringify({ role: "listener", room: targetRoomId }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+      window.location.assign(`/listener?room=${encodeURIComponent(targetRoomId)}&token=${encodeURIComponent(result.token)}`);
+    } catch (tokenError: any) {
+      console.error("[Client] Could not issue a listener token:", tokenError.message);
+      toast({ title: "Listener Link Failed", description: tokenError.message, variant: "destructive" });
+    }
+  };
+
+
+  const handleGlossaryUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow uploading the same file again after editing it
+    if (!file) return;
+    const targetRoomId = roomId.trim() || DEFAULT_ROOM_ID;
+    const format = file.name.toLowerCase().endsWith(".csv") ? "csv" : "json";
+    setIsUploadingGlossary(true);
+    try {
+      const response = await fetch(`/api/rooms/${encodeURIComponent(targetRoomId)}/glossary?format=${format}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": format === "csv" ? "text/csv" : "application/json",
+          ...(joinTokenRef.current ? { Authorization: `Bearer ${joinTokenRef.current}` } : {}),
+        },
+        body: await file.text(),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+      toast({ title: "Glossary Uploaded", description: `Room '${targetRoomId}': ${result.terms.length} terms, ${result.doNotTranslate.length} do-not-translate.` });
+    } catch (uploadError: any) {
+      console.error("[Client] Glossary upload failed:", uploadError.message);
+      toast({ title: "Glossary Upload Failed", description: uploadError.message, variant: "destructive" });
+    } finally {
+      setIsUploadingGlossary(false);
+    }
+  };
+
+
   // --- Derived UI State ---
+  const isCaptureSupported = captureFormat === "pcm" ? isPcmCaptureSupported : !!supportedMimeType;
   let StreamButtonIconComponent = Mic;
   let streamButtonText = audioInputMode === "microphone" ? "Start Mic Transcription" : "Start Screen/Tab Record";
   let streamButtonVariant: "default" | "destructive" = "default";
@@ -447,7 +796,11 @@ export default function LinguaVoxPage() {
   let iconShouldAnimateSpin = false;
 
   if (streamingState === "recognizing") {
-    if (isProcessingServer) {
+    if (isReconnecting) {
+        StreamButtonIconComponent = Loader2;
+        iconShouldAnimateSpin = true;
+        statusMessage = "Connection lost. Reconnecting...";
+    } else if (isProcessingServer) {
         StreamButtonIconComponent = Loader2; // Show loader as icon when server is processing
         iconShouldAnimateSpin = true;
         statusMessage = "Server processing audio...";
@@ -464,7 +817,7 @@ export default function LinguaVoxPage() {
     statusMessage = "Finalizing..."
   } else if (streamingState === "error") {
       StreamButtonIconComponent = AlertTriangle; // Use AlertTriangle for error state icon
-      if (!supportedMimeType) {
+      if (!isCaptureSupported) {
          statusMessage = "Audio recording not supported.";
       } else if (error){
          statusMessage = error;
@@ -478,9 +831,10 @@ export default function LinguaVoxPage() {
       // Default button text is already set
   }
 
-  const isButtonDisabled = streamingState === "stopping" || (!supportedMimeType && streamingState !== "error");
+  const isButtonDisabled = streamingState === "stopping" || (!isCaptureSupported && streamingState !== "error");
 
   const languageSelectorItems = supportedLanguages.map(lang => ({ ...lang }));
+  const sourceLanguageSelectorItems = [{ code: AUTO_SOURCE_LANGUAGE, name: "Auto-detect" }, ...languageSelectorItems];
 
 
   return (
@@ -493,7 +847,7 @@ export default function LinguaVoxPage() {
           Real-time Audio Transcription & Translation
         </p>
          <div className="text-center mt-2">
-           <Link href="/listener" className="text-sm text-primary hover:underline flex items-center justify-center gap-1">
+           <Link href={`/listener?room=${encodeURIComponent(roomId.trim() || DEFAULT_ROOM_ID)}`} onClick={handleOpenListenerPage} className="text-sm text-primary hover:underline flex items-center justify-center gap-1">
                 <AudioLines size={16}/>
                 Go to Listener Page
             </Link>
@@ -516,6 +870,65 @@ export default function LinguaVoxPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="flex flex-col space-y-2">
+                <Label htmlFor="room-id" className="text-sm font-medium">Room</Label>
+                <Input
+                  id="room-id"
+                  value={roomId}
+                  onChange={(event) => setRoomId(event.target.value)}
+                  placeholder={DEFAULT_ROOM_ID}
+                  disabled={streamingState === "recognizing" || streamingState === "stopping"}
+                />
+              </div>
+              <div className="flex flex-col space-y-2">
+                <Label htmlFor="join-token" className="text-sm font-medium">Join Token</Label>
+                <Input
+                  id="join-token"
+                  type="password"
+                  value={joinToken}
+                  onChange={(event) => setJoinToken(event.target.value)}
+                  placeholder="Speaker or moderator token"
+                  autoComplete="off"
+                  disabled={streamingState === "recognizing" || streamingState === "stopping"}
+                />
+              </div>
+              <div className="flex flex-col space-y-2 md:col-span-2">
+                <Label htmlFor="speaker-name" className="text-sm font-medium">Your Name (shown to listeners)</Label>
+                <Input
+                  id="speaker-name"
+                  value={speakerName}
+                  onChange={(event) => setSpeakerName(event.target.value)}
+                  placeholder="Speaker 1"
+                  maxLength={60}
+                  disabled={streamingState === "recognizing" || streamingState === "stopping"}
+                />
+              </div>
+              <div className="flex flex-col space-y-2 md:col-span-2">
+                <Label htmlFor="vocabulary" className="text-sm font-medium">Vocabulary (names and jargon, comma-separated)</Label>
+                <Input
+                  id="vocabulary"
+                  value={vocabulary}
+                  onChange={(event) => setVocabulary(event.target.value)}
+                  placeholder="LinguaVox, Kubernetes, Dr. Okonkwo"
+                  disabled={streamingState === "recognizing" || streamingState === "stopping"}
+                />
+              </div>
+              <div className="flex flex-col space-y-2 md:col-span-2">
+                <Label htmlFor="glossary-file" className="text-sm font-medium flex items-center gap-1">
+                  <BookText size={16} className="text-primary" />
+                  Room Glossary (CSV or JSON)
+                </Label>
+                <Input
+                  id="glossary-file"
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={handleGlossaryUpload}
+                  disabled={isUploadingGlossary}
+                />
+                <p className="text-xs text-muted-foreground">CSV columns: source, target, language. Leave the target empty for terms that must not be translated. CSV glossaries fix untranslated terms; to only flag them, upload JSON with "enforcement": "flag". Applies to new segments right away.</p>
+              </div>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
               <LanguageSelector
                 id="source-language"
@@ -526,7 +939,7 @@ export default function LinguaVoxPage() {
                     setSourceLanguage(value);
                   }
                 }}
-                languages={languageSelectorItems}
+                languages={sourceLanguageSelectorItems}
                 disabled={streamingState === "recognizing" || streamingState === "stopping"}
               />
               <LanguageSelector
@@ -549,6 +962,7 @@ export default function LinguaVoxPage() {
                        setAudioInputMode(value as AudioInputMode);
                        console.log("[Client] Audio input mode changed to:", value);
                        setTranscribedText(""); 
+                       setPartialText("");
                        setTranslatedText("");
                      }
                   }}
@@ -566,6 +980,31 @@ export default function LinguaVoxPage() {
                 </RadioGroup>
               </div>
             </div>
+            <div className="flex flex-col space-y-2">
+              <Label htmlFor="capture-format" className="text-sm font-medium">Capture Format</Label>
+              <RadioGroup
+                id="capture-format"
+                value={captureFormat}
+                onValueChange={(value: string) => {
+                  if (streamingState !== "recognizing" && streamingState !== "stopping") {
+                    setCaptureFormat(value as CaptureFormat);
+                    console.log("[Client] Capture format changed to:", value);
+                  }
+                }}
+                className="flex space-x-2"
+                disabled={streamingState === "recognizing" || streamingState === "stopping"}
+              >
+                <div className="flex items-center space-x-1">
+                  <RadioGroupItem value="recorder" id="recorder-format" disabled={!supportedMimeType} />
+                  <Label htmlFor="recorder-format" className="text-sm cursor-pointer">Compressed (MediaRecorder{supportedMimeType ? `, ${supportedMimeType.split(";")[0]}` : ""})</Label>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <RadioGroupItem value="pcm" id="pcm-format" disabled={!isPcmCaptureSupported} />
+                  <Label htmlFor="pcm-format" className="text-sm cursor-pointer">Raw PCM (AudioWorklet)</Label>
+                </div>
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">Raw PCM is resampled to 16 kHz in the browser, so the server skips FFmpeg decoding and answers sooner.</p>
+            </div>
 
             <Separator />
 
@@ -581,6 +1020,12 @@ export default function LinguaVoxPage() {
               </Button>
                <div className="min-h-[20px] flex flex-col items-center justify-center space-y-1 text-sm">
                   {statusMessage && <p className={` ${error || streamingState === 'error' ? 'text-destructive' : 'text-primary'} ${streamingState === "recognizing" || streamingState === "stopping" ? "animate-pulse" : ""}`}>{statusMessage}</p>}
+                  {streamingState === "recognizing" && (
+                    <p className={`flex items-center gap-1 ${isSpeechDetected ? "text-accent" : "text-muted-foreground"}`}>
+                      <AudioLines size={14} />
+                      {isSpeechDetected ? "Speech detected" : "Silence"}
+                    </p>
+                  )}
               </div>
             </div>
 
@@ -596,17 +1041,29 @@ export default function LinguaVoxPage() {
                 <h3 className="text-xl font-semibold font-headline mb-2 flex items-center gap-2">
                   <Mic className="text-primary"/>
                   Live Transcription (from Server):
+                  {sourceLanguage === AUTO_SOURCE_LANGUAGE && detectedLanguage && (
+                    <span className="text-sm font-normal text-muted-foreground" title="Language detected for the latest segment">
+                      {detectedLanguage.language.toUpperCase()}
+                      {detectedLanguage.probability !== undefined && ` (${Math.round(detectedLanguage.probability * 100)}%)`}
+                    </span>
+                  )}
                 </h3>
-                <Textarea
-                  value={transcribedText}
-                  readOnly
-                  rows={8}
-                  className="bg-muted/50 border-border text-lg p-4 rounded-md shadow-inner"
+                <div
+                  className="min-h-[212px] max-h-[212px] overflow-y-auto bg-muted/50 border border-border text-lg p-4 rounded-md shadow-inner"
                   aria-label="Transcribed text from server"
-                  placeholder={
-                    streamingState === "recognizing" ? "Waiting for server transcription..." : "Server transcription will appear here..."
-                  }
-                />
+                  aria-live="polite"
+                >
+                  {transcribedText || partialText ? (
+                    <p>
+                      {transcribedText}
+                      {partialText && <span className="text-muted-foreground italic">{transcribedText ? " " : ""}{partialText}</span>}
+                    </p>
+                  ) : (
+                    <p className="text-muted-foreground">
+                      {streamingState === "recognizing" ? "Waiting for server transcription..." : "Server transcription will appear here..."}
+                    </p>
+                  )}
+                </div>
               </div>
               <div>
                 <h3 className="text-xl font-semibold font-headline mb-2 flex items-center gap-2">
@@ -621,8 +1078,38 @@ export default function LinguaVoxPage() {
                   aria-label="Translated text"
                   placeholder={isProcessingServer && streamingState === "recognizing" ? "Server translating..." : "Translation will appear here..."}
                 />
+                {glossaryWarning && (
+                  <p className="text-sm text-destructive mt-2 flex items-center gap-1">
+                    <AlertTriangle size={14} />
+                    Glossary not followed: {glossaryWarning}
+                  </p>
+                )}
               </div>
             </div>
+
+            {sessionId && (
+              <div className="flex flex-col space-y-1 text-sm">
+                <p className="font-medium flex items-center gap-1">
+                  <Download size={16} className="text-primary" />
+                  Download transcript
+                </p>
+                {[undefined, targetLanguage].map((language) => (
+                  <p key={language ?? "source"} className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                    <span>{language ? `Translation (${language}):` : `Source (${sourceLanguage}):`}</span>
+                    {TRANSCRIPT_EXPORT_FORMATS.filter((format) => !language || format !== "json").map((format) => (
+                      <a
+                        key={format}
+                        href={`/api/sessions/${encodeURIComponent(sessionId)}/export?format=${format}${language ? `&language=${encodeURIComponent(language)}` : ""}${joinToken.trim() ? `&token=${encodeURIComponent(joinToken.trim())}` : ""}`}
+                        className="text-primary hover:underline uppercase"
+                        download
+                      >
+                        {format}
+                      </a>
+                    ))}
+                  </p>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       </main>
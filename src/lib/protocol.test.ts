@@ -0,0 +1,90 @@
+// src/lib/protocol.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  AUDIO_FRAME_HEADER_BYTES,
+  decodeAudioFrame,
+  decodeSynthesizedAudioFrame,
+  encodeAudioFrameHeader,
+  encodeSynthesizedAudioFrame,
+  type AudioFrameHeader,
+} from './protocol';
+
+function audioFrame(header: AudioFrameHeader, payload: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(AUDIO_FRAME_HEADER_BYTES + payload.length);
+  frame.set(encodeAudioFrameHeader(header), 0);
+  frame.set(payload, AUDIO_FRAME_HEADER_BYTES);
+  return frame;
+}
+
+describe('audio frames', () => {
+  const header: AudioFrameHeader = { streamId: 0xffff, sequence: 0xfffffffe, captureTimestamp: 1760000000123.5 };
+  const payload = new Uint8Array([1, 2, 3, 250, 255]);
+
+  it('decodes what was encoded', () => {
+    const decoded = decodeAudioFrame(audioFrame(header, payload));
+    assert.ok(decoded.success);
+    assert.deepEqual(decoded.data.header, header);
+    assert.deepEqual(decoded.data.payload, payload);
+  });
+
+  it('accepts a frame that does not start at the beginning of its buffer', () => {
+    // ws hands over Buffers that are views into a larger, shared allocation
+    const backing = new Uint8Array(7 + AUDIO_FRAME_HEADER_BYTES + payload.length);
+    backing.set(audioFrame(header, payload), 7);
+    const decoded = decodeAudioFrame(backing.subarray(7));
+    assert.ok(decoded.success);
+    assert.deepEqual(decoded.data.header, header);
+    assert.deepEqual(decoded.data.payload, payload);
+  });
+
+  it('accepts an empty payload', () => {
+    const decoded = decodeAudioFrame(audioFrame(header, new Uint8Array(0)));
+    assert.ok(decoded.success);
+    assert.equal(decoded.data.payload.byteLength, 0);
+  });
+
+  it('rejects frames shorter than the header, without the magic or of another version', () => {
+    const short = decodeAudioFrame(new Uint8Array(AUDIO_FRAME_HEADER_BYTES - 1));
+    assert.equal(short.success, false);
+
+    const unwrapped = decodeAudioFrame(new Uint8Array(64).fill(26));
+    assert.ok(!unwrapped.success);
+    assert.equal(unwrapped.code, 'invalid_audio_frame');
+    assert.match(unwrapped.message, /does not start with 'LVAF'/);
+
+    const future = audioFrame(header, payload);
+    future[4] = 2;
+    const unsupported = decodeAudioFrame(future);
+    assert.ok(!unsupported.success);
+    assert.match(unsupported.message, /version 2 is not supported/);
+  });
+});
+
+describe('synthesized audio frames', () => {
+  const header = {
+    roomId: 'room-1',
+    speakerId: 'speaker-1',
+    speakerName: 'Ana',
+    segmentId: 'segment-7',
+    targetLanguage: 'pt-BR',
+    mimeType: 'audio/webm;codecs=opus',
+  };
+
+  it('decodes what was encoded', () => {
+    const audio = new Uint8Array([26, 69, 223, 163]);
+    const frame = encodeSynthesizedAudioFrame(header, audio);
+    const decoded = decodeSynthesizedAudioFrame(frame.buffer as ArrayBuffer);
+    assert.ok(decoded.success);
+    assert.deepEqual(decoded.data.header, header);
+    assert.deepEqual(decoded.data.audio, audio);
+  });
+
+  it('rejects a header length beyond the end of the frame', () => {
+    const frame = encodeSynthesizedAudioFrame(header, new Uint8Array(0));
+    new DataView(frame.buffer).setUint32(0, frame.byteLength, true);
+    const decoded = decodeSynthesizedAudioFrame(frame.buffer as ArrayBuffer);
+    assert.ok(!decoded.success);
+    assert.match(decoded.message, /exceeds the frame/);
+  });
+});
@@ -0,0 +1,413 @@
+import { z } from "zod";
+
+/**
+ * Wire protocol between the WebSocket server and the speaker/listener pages.
+ * Every text frame is one JSON object: client messages are discriminated by `action`,
+ * server messages by `type`. Binary frames from speakers carry audio for one of their streams,
+ * behind a small fixed header (see encodeAudioFrameHeader), in the format that stream's
+ * 'start_transcription_stream' negotiated; binary frames to listeners carry synthesized speech
+ * (see encodeSynthesizedAudioFrame).
+ *
+ * Bump PROTOCOL_VERSION on any incompatible change; the server rejects clients whose
+ * `hello` announces a different version.
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * Close code of a connection the server dropped because the client did not keep up with
+ * its messages (see ClientSendQueue). Speakers resume their streams; listeners can subscribe
+ * again with `sinceSegmentId` to catch up on what they missed.
+ */
+export const SLOW_CONSUMER_CLOSE_CODE = 4008;
+
+export const ErrorCodeSchema = z.enum([
+  "invalid_json",
+  "invalid_message",
+  "handshake_required",
+  "unsupported_protocol_version",
+  "stream_active",
+  "no_active_stream",
+  "transcription_failed",
+  "translation_failed",
+  "synthesis_failed",
+  "forbidden",
+  "resume_failed",
+  "unsupported_input_format",
+  "invalid_audio_frame",
+  "unsupported_model",
+  "stream_failed", // The server stopped the stream (e.g. its audio decoder died); start a new one
+]);
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
+
+/** Role granted by the join token the client connected with. */
+export const JoinRoleSchema = z.enum(["speaker", "listener", "moderator"]);
+export type JoinRole = z.infer<typeof JoinRoleSchema>;
+
+export const VadSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  energyThreshold: z.number().nonnegative().optional(),
+  maxZeroCrossingRate: z.number().nonnegative().optional(),
+  minSpeechMs: z.number().nonnegative().optional(),
+  minSilenceMs: z.number().nonnegative().optional(),
+});
+export type VadSettings = z.infer<typeof VadSettingsSchema>;
+
+/** Translation backends a session can pick; the server's TRANSLATION_PROVIDER applies when omitted. */
+export const TranslationProviderNameSchema = z.enum(["genkit", "libretranslate", "dictionary"]);
+export type TranslationProviderName = z.infer<typeof TranslationProviderNameSchema>;
+
+/**
+ * Encoding of a speaker's binary frames. "webm", "mp4", "ogg" and "wav" are containers the
+ * server decodes with FFmpeg (MediaRecorder output, or a WAV stream from other clients);
+ * "pcm" is 16 kHz mono signed 16-bit little-endian samples, used without decoding.
+ */
+export const AudioInputFormatSchema = z.enum(["webm", "mp4", "ogg", "wav", "pcm"]);
+export type AudioInputFormat = z.infer<typeof AudioInputFormatSchema>;
+
+/** Largest stream id a speaker can give one of its streams; ids are per connection. */
+export const MAX_STREAM_ID = 0xffff;
+
+/** Sample rate of "pcm" input, the rate Whisper works at. */
+export const PCM_INPUT_SAMPLE_RATE = 16000;
+
+// --- Client -> Server ---
+
+export const HelloMessageSchema = z.object({
+  action: z.literal("hello"),
+  protocolVersion: z.number().int(),
+});
+
+export const StartTranscriptionStreamMessageSchema = z.object({
+  action: z.literal("start_transcription_stream"),
+  roomId: z.string().optional(),
+  language: z.string().optional(),
+  targetLanguage: z.string().optional(),
+  model: z.string().max(100).optional(), // Must be one of the server's WHISPER_MODELS, else 'unsupported_model'
+  vad: VadSettingsSchema.optional(),
+  translationProvider: TranslationProviderNameSchema.optional(),
+  // Biases Whisper towards names and jargon: sent as its initial_prompt with every window
+  initialPrompt: z.string().max(500).optional(),
+  vocabulary: z.array(z.string().trim().min(1).max(60)).max(100).optional(),
+  // Checked by resolveAudioInputFormat rather than here, so unknown formats get 'unsupported_input_format'
+  inputFormat: z.string().max(40).optional(),
+  mimeType: z.string().max(200).optional(), // e.g. MediaRecorder.mimeType; implies inputFormat
+  // Tags this stream's audio frames. One connection can run several streams (e.g. mic and system audio)
+  streamId: z.number().int().min(0).max(MAX_STREAM_ID).optional(), // 0 when omitted
+  // Shown to listeners next to this stream's utterances; the join token's subject, else "Speaker N", when omitted
+  speakerName: z.string().trim().min(1).max(60).optional(),
+});
+
+export const StopTranscriptionStreamMessageSchema = z.object({
+  action: z.literal("stop_transcription_stream"),
+  streamId: z.number().int().min(0).max(MAX_STREAM_ID).optional(), // Every stream of the connection when omitted
+});
+
+// Reattaches a reconnecting speaker to the stream it lost, using the token from 'stream_started'
+export const ResumeStreamMessageSchema = z.object({
+  action: z.literal("resume_stream"),
+  resumeToken: z.string().min(1),
+});
+
+export const SubscribeAudioMessageSchema = z.object({
+  action: z.literal("subscribe_audio"),
+  roomId: z.string().optional(),
+  targetLanguage: z.string().optional(),
+  audio: z.boolean().optional(), // Ask for server-synthesized speech frames
+  voicePerSpeaker: z.boolean().optional(), // Synthesize each speaker of the room with a voice of their own
+  // Catch-up: replay translations committed after this segment, or within the last N seconds
+  sinceSegmentId: z.string().optional(),
+  historySeconds: z.number().positive().optional(),
+});
+
+export const ClientMessageSchema = z.discriminatedUnion("action", [
+  HelloMessageSchema,
+  StartTranscriptionStreamMessageSchema,
+  StopTranscriptionStreamMessageSchema,
+  ResumeStreamMessageSchema,
+  SubscribeAudioMessageSchema,
+]);
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+
+// --- Server -> Client ---
+
+/** Every transcript, translation and speech event names the speaker (one per stream) it came from. */
+const SpeakerFields = {
+  speakerId: z.string(), // Assigned by the server; stays the same when the stream is resumed
+  speakerName: z.string(),
+};
+
+export const WelcomeMessageSchema = z.object({
+  type: z.literal("welcome"),
+  protocolVersion: z.number().int(),
+  clientId: z.string(),
+  role: JoinRoleSchema,
+});
+
+export const ErrorMessageSchema = z.object({
+  type: z.literal("error"),
+  code: ErrorCodeSchema,
+  message: z.string(),
+});
+
+export const StreamStartedMessageSchema = z.object({
+  type: z.literal("stream_started"),
+  roomId: z.string(),
+  sessionId: z.string(), // Recorded transcript id, usable with /api/sessions/<sessionId>/export
+  resumeToken: z.string(), // Secret for 'resume_stream' after a dropped connection
+  inputFormat: AudioInputFormatSchema, // The format the server will decode binary frames as
+  streamId: z.number().int(),
+  ...SpeakerFields, // How this stream is attributed to listeners
+});
+
+export const StreamResumedMessageSchema = z.object({
+  type: z.literal("stream_resumed"),
+  roomId: z.string(),
+  sessionId: z.string(),
+  streamId: z.number().int(),
+});
+
+export const StreamStoppedMessageSchema = z.object({
+  type: z.literal("stream_stopped"),
+  roomId: z.string(),
+  streamId: z.number().int(),
+});
+
+export const SubscribedMessageSchema = z.object({
+  type: z.literal("subscribed"),
+  roomId: z.string(),
+  targetLanguage: z.string(),
+  audio: z.boolean(), // Whether synthesized speech frames will follow; false when the server has no TTS engine
+  voicePerSpeaker: z.boolean().optional(),
+});
+
+export const SpeechStartMessageSchema = z.object({
+  type: z.literal("speech_start"),
+  roomId: z.string(),
+  ...SpeakerFields,
+  time: z.number(), // Seconds since the stream started
+});
+
+export const SpeechEndMessageSchema = z.object({
+  type: z.literal("speech_end"),
+  roomId: z.string(),
+  ...SpeakerFields,
+  time: z.number(),
+});
+
+export const TranscriptionPartialMessageSchema = z.object({
+  type: z.literal("transcription_partial"),
+  roomId: z.string(),
+  ...SpeakerFields,
+  text: z.string(),
+  start: z.number().nullable(),
+});
+
+export const TranscriptionFinalMessageSchema = z.object({
+  type: z.literal("transcription_final"),
+  roomId: z.string(),
+  ...SpeakerFields,
+  segmentId: z.string(),
+  text: z.string(),
+  start: z.number(),
+  end: z.number(),
+  language: z.string().optional(), // Recognized language; varies per segment when the stream's language is 'auto'
+  languageProbability: z.number().optional(), // Detection confidence (0-1), only for auto-detected segments
+});
+
+export const TranslatedTextMessageSchema = z.object({
+  type: z.literal("translated_text_for_listener"),
+  roomId: z.string(),
+  ...SpeakerFields,
+  segmentId: z.string().optional(), // Absent on the last-translation snapshot sent to late joiners
+  text: z.string(),
+  targetLanguage: z.string(),
+  history: z.boolean().optional(), // Replayed on subscribe for catch-up; display only, never spoken
+  // Room glossary rules the translation still breaks after the server's post-check
+  glossaryViolations: z.array(z.object({ term: z.string(), expected: z.string() })).optional(),
+});
+
+export const ServerMessageSchema = z.discriminatedUnion("type", [
+  WelcomeMessageSchema,
+  ErrorMessageSchema,
+  StreamStartedMessageSchema,
+  StreamStoppedMessageSchema,
+  StreamResumedMessageSchema,
+  SubscribedMessageSchema,
+  SpeechStartMessageSchema,
+  SpeechEndMessageSchema,
+  TranscriptionPartialMessageSchema,
+  TranscriptionFinalMessageSchema,
+  TranslatedTextMessageSchema,
+]);
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+// --- Speaker -> Server binary frames ---
+
+export const AUDIO_FRAME_MAGIC = "LVAF";
+export const AUDIO_FRAME_VERSION = 1;
+export const AUDIO_FRAME_HEADER_BYTES = 20;
+
+/**
+ * Fixed little-endian header in front of every audio chunk a speaker sends:
+ * magic "LVAF" (4 bytes), version (uint8), reserved (uint8, 0), stream id (uint16),
+ * sequence number (uint32), capture timestamp (float64). The payload follows directly.
+ */
+export interface AudioFrameHeader {
+  streamId: number;
+  sequence: number; // Counts the stream's frames from 0, so the server can spot lost and late frames
+  captureTimestamp: number; // Milliseconds since the Unix epoch when the chunk was captured
+}
+
+// --- Server -> Listener binary frames ---
+
+export const SYNTHESIZED_AUDIO_MIME_TYPE = "audio/webm;codecs=opus";
+
+export const SynthesizedAudioFrameHeaderSchema = z.object({
+  roomId: z.string(),
+  ...SpeakerFields,
+  segmentId: z.string(),
+  targetLanguage: z.string(),
+  mimeType: z.string(),
+});
+export type SynthesizedAudioFrameHeader = z.infer<typeof SynthesizedAudioFrameHeaderSchema>;
+
+// --- Encoding / decoding helpers ---
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; code: ErrorCode; message: string };
+
+const MIME_TYPE_INPUT_FORMATS: Record<string, AudioInputFormat> = {
+  "audio/webm": "webm",
+  "video/webm": "webm",
+  "audio/mp4": "mp4", // Safari's MediaRecorder
+  "video/mp4": "mp4",
+  "audio/x-m4a": "mp4",
+  "audio/ogg": "ogg", // Firefox's MediaRecorder
+  "application/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/vnd.wave": "wav",
+};
+
+/**
+ * Works out the input format of a new stream from what the client declared. Either field
+ * is enough (a MIME type's parameters such as `codecs` are ignored); when both are given
+ * they must agree. Streams that declare neither are "webm", as before formats were negotiated.
+ */
+export function resolveAudioInputFormat(inputFormat?: string, mimeType?: string): ParseResult<AudioInputFormat> {
+  let declared: AudioInputFormat | undefined;
+  if (inputFormat !== undefined) {
+    const parsed = AudioInputFormatSchema.safeParse(inputFormat.trim().toLowerCase());
+    if (!parsed.success) {
+      return { success: false, code: "unsupported_input_format", message: `Unsupported input format '${inputFormat}'. Supported formats: ${AudioInputFormatSchema.options.join(", ")}.` };
+    }
+    declared = parsed.data;
+  }
+  if (mimeType !== undefined) {
+    const fromMimeType = MIME_TYPE_INPUT_FORMATS[mimeType.split(";")[0].trim().toLowerCase()];
+    if (!fromMimeType) {
+      return { success: false, code: "unsupported_input_format", message: `Unsupported audio MIME type '${mimeType}'. Supported types: ${Object.keys(MIME_TYPE_INPUT_FORMATS).join(", ")}; send raw PCM with inputFormat 'pcm'.` };
+    }
+    if (declared && declared !== fromMimeType) {
+      return { success: false, code: "unsupported_input_format", message: `Input format '${declared}' does not match MIME type '${mimeType}'.` };
+    }
+    declared = fromMimeType;
+  }
+  return { success: true, data: declared || "webm" };
+}
+
+function parseWith<T>(schema: z.ZodType<T>, raw: string): ParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, code: "invalid_json", message: "Invalid JSON message received." };
+  }
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue?.path.length ? ` at '${issue.path.join(".")}'` : "";
+    return { success: false, code: "invalid_message", message: `Invalid message${path}: ${issue?.message ?? "unknown error"}` };
+  }
+  return { success: true, data: result.data };
+}
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseWith(ClientMessageSchema, raw);
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseWith(ServerMessageSchema, raw);
+}
+
+export function encodeClientMessage(message: ClientMessage): string {
+  return JSON.stringify(message);
+}
+
+export function encodeServerMessage(message: ServerMessage): string {
+  return JSON.stringify(message);
+}
+
+export function encodeAudioFrameHeader(header: AudioFrameHeader): Uint8Array {
+  const bytes = new Uint8Array(AUDIO_FRAME_HEADER_BYTES);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode(AUDIO_FRAME_MAGIC), 0);
+  view.setUint8(4, AUDIO_FRAME_VERSION);
+  view.setUint16(6, header.streamId, true);
+  view.setUint32(8, header.sequence, true);
+  view.setFloat64(12, header.captureTimestamp, true);
+  return bytes;
+}
+
+export function decodeAudioFrame(data: Uint8Array): ParseResult<{ header: AudioFrameHeader; payload: Uint8Array }> {
+  if (data.byteLength < AUDIO_FRAME_HEADER_BYTES) {
+    return { success: false, code: "invalid_audio_frame", message: `Audio frame is shorter than its ${AUDIO_FRAME_HEADER_BYTES}-byte header.` };
+  }
+  if (new TextDecoder().decode(data.subarray(0, 4)) !== AUDIO_FRAME_MAGIC) {
+    return { success: false, code: "invalid_audio_frame", message: `Audio frame does not start with '${AUDIO_FRAME_MAGIC}'. Wrap every audio chunk in an audio frame header.` };
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint8(4);
+  if (version !== AUDIO_FRAME_VERSION) {
+    return { success: false, code: "invalid_audio_frame", message: `Audio frame version ${version} is not supported. Server reads version ${AUDIO_FRAME_VERSION}.` };
+  }
+  return {
+    success: true,
+    data: {
+      header: {
+        streamId: view.getUint16(6, true),
+        sequence: view.getUint32(8, true),
+        captureTimestamp: view.getFloat64(12, true),
+      },
+      payload: data.subarray(AUDIO_FRAME_HEADER_BYTES),
+    },
+  };
+}
+
+/**
+ * Synthesized speech for one translated segment: a uint32 little-endian header length,
+ * the UTF-8 JSON header, then a complete, independently playable audio file.
+ */
+export function encodeSynthesizedAudioFrame(header: SynthesizedAudioFrameHeader, audio: Uint8Array): Uint8Array {
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const frame = new Uint8Array(4 + headerBytes.length + audio.length);
+  new DataView(frame.buffer).setUint32(0, headerBytes.length, true);
+  frame.set(headerBytes, 4);
+  frame.set(audio, 4 + headerBytes.length);
+  return frame;
+}
+
+export function decodeSynthesizedAudioFrame(data: ArrayBuffer): ParseResult<{ header: SynthesizedAudioFrameHeader; audio: Uint8Array }> {
+  if (data.byteLength < 4) {
+    return { success: false, code: "invalid_message", message: "Audio frame is too short." };
+  }
+  const headerLength = new DataView(data).getUint32(0, true);
+  if (4 + headerLength > data.byteLength) {
+    return { success: false, code: "invalid_message", message: "Audio frame header length exceeds the frame." };
+  }
+  const header = parseWith(SynthesizedAudioFrameHeaderSchema, new TextDecoder().decode(new Uint8Array(data, 4, headerLength)));
+  if (!header.success) return header;
+  return { success: true, data: { header: header.data, audio: new Uint8Array(data, 4 + headerLength) } };
+}
@@ -0,0 +1,37 @@
+// src/scripts/create-join-token.ts
+// Usage: npm run token:create -- --role speaker --room main [--ttl 3600] [--subject alice]
+import { parseArgs } from 'util';
+import { config as dotenvConfig } from 'dotenv';
+import { JoinRoleSchema } from '../lib/protocol';
+import { getJoinTokenSecret, signJoinToken } from '../services/JoinTokens';
+
+dotenvConfig();
+
+const { values } = parseArgs({
+  options: {
+    role: { type: 'string' },
+    room: { type: 'string' },
+    ttl: { type: 'string' },
+    subject: { type: 'string' },
+  },
+});
+
+const secret = getJoinTokenSecret();
+if (!secret) {
+  console.error('JOIN_TOKEN_SECRET is not set.');
+  process.exit(1);
+}
+
+const role = JoinRoleSchema.safeParse(values.role);
+if (!role.success || !values.room) {
+  console.error(`Usage: create-join-token --role <${JoinRoleSchema.options.join('|')}> --room <roomId|*> [--ttl seconds] [--subject name]`);
+  process.exit(1);
+}
+
+const ttlSeconds = values.ttl ? parseInt(values.ttl, 10) : undefined;
+if (ttlSeconds !== undefined && (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0)) {
+  console.error('--ttl must be a positive number of seconds.');
+  process.exit(1);
+}
+
+console.log(signJoinToken({ role: role.data, room: values.room, subject: values.subject, ttlSeconds }, secret));
@@ -3,7 +3,10 @@
 
 import sys
 import os
+import json
+import struct
 import whisper
+import numpy as np
 import subprocess # For calling ffmpeg
 import tempfile   # For creating temporary WAV file
 
@@ -25,6 +28,144 @@ import tempfile   # For creating temporary WAV file
 # Saída:
 # - Se sucesso -> O texto transcrito é impresso na saída padrão (stdout).
 # - Se erro -> A mensagem de erro é impressa na saída de erro (stderr).
+#
+# Modo Worker (processo persistente):
+# python3 run_whisper.py --worker [modelo]
+#
+# O modelo é carregado uma única vez. Cada requisição lida do stdin tem o formato:
+# - 4 bytes (uint32 little-endian): tamanho N do cabeçalho JSON
+# - N bytes: cabeçalho JSON UTF-8, ex.: {"id": "abc", "language": "pt", "pcm_bytes": 64000}
+#   O campo opcional "initial_prompt" (vocabulário, nomes próprios, última frase já confirmada)
+#   é repassado ao Whisper para orientar a transcrição.
+#   Com "language": "auto", o idioma é detectado a cada janela; se a probabilidade ficar abaixo de
+#   "min_language_probability", usa-se "fallback_language" (o último idioma detectado com confiança).
+# - pcm_bytes bytes: áudio PCM s16le, mono, 16 kHz
+# Para cada requisição uma linha JSON é escrita no stdout:
+# - {"id": "abc", "text": "...", "language": "pt", "language_probability": 0.97, "segments": [...]} em caso
+#   de sucesso, onde cada segmento tem "start", "end" (segundos relativos ao início do PCM), "text" e
+#   "words" ([{"word", "start", "end"}]). "language_probability" só existe quando o idioma foi detectado.
+# - {"id": "abc", "error": "..."} em caso de erro
+# Assim que o modelo termina de carregar, a linha {"type": "ready", "model": "<modelo>"} é emitida.
+
+SAMPLE_RATE = 16000
+
+
+def read_exactly(stream, size):
+    """Lê exatamente `size` bytes do stream, ou retorna None se o stream terminar antes."""
+    data = bytearray()
+    while len(data) < size:
+        chunk = stream.read(size - len(data))
+        if not chunk:
+            return None
+        data.extend(chunk)
+    return bytes(data)
+
+
+def serialize_segment(segment):
+    """Reduz um segmento do Whisper aos campos de tempo e texto usados pelo Node.js."""
+    return {
+        "start": round(float(segment["start"]), 3),
+        "end": round(float(segment["end"]), 3),
+        "text": segment["text"].strip(),
+        "words": [
+            {"word": word["word"].strip(), "start": round(float(word["start"]), 3), "end": round(float(word["end"]), 3)}
+            for word in segment.get("words", [])
+            if word["word"].strip()
+        ],
+    }
+
+
+def detect_language(model, audio, fallback_language, min_probability):
+    """Detecta o idioma da janela; retorna (idioma, probabilidade), recorrendo ao fallback se a detecção for incerta."""
+    n_mels = getattr(model.dims, "n_mels", 80)
+    mel = whisper.log_mel_spectrogram(whisper.pad_or_trim(audio), n_mels).to(model.device)
+    _, probs = model.detect_language(mel)
+    detected = max(probs, key=probs.get)
+    if fallback_language and probs[detected] < min_probability and fallback_language in probs:
+        return fallback_language, float(probs[fallback_language])
+    return detected, float(probs[detected])
+
+
+def run_worker(model_size):
+    # O stdout é reservado ao protocolo; qualquer print acidental vai para o stderr.
+    protocol_out = sys.stdout
+    sys.stdout = sys.stderr
+
+    def respond(payload):
+        protocol_out.write(json.dumps(payload, ensure_ascii=False) + "\n")
+        protocol_out.flush()
+
+    print(f"Info: Worker carregando modelo '{model_size}'...", file=sys.stderr)
+    model = whisper.load_model(model_size)
+    respond({"type": "ready", "model": model_size})
+
+    stdin = sys.stdin.buffer
+    while True:
+        length_bytes = read_exactly(stdin, 4)
+        if length_bytes is None:
+            break  # stdin fechado: encerrar o worker normalmente
+        (header_length,) = struct.unpack("<I", length_bytes)
+        header_bytes = read_exactly(stdin, header_length)
+        if header_bytes is None:
+            break
+        try:
+            header = json.loads(header_bytes.decode("utf-8"))
+            pcm_bytes = int(header["pcm_bytes"])
+            if pcm_bytes < 0:
+                raise ValueError(f"pcm_bytes negativo: {pcm_bytes}")
+        except Exception as e:
+            # Sem um cabeçalho válido não se sabe onde o áudio termina e o próximo quadro começa:
+            # o worker encerra e o WhisperWorker.ts o reinicia com o protocolo sincronizado.
+            print(f"Erro: cabeçalho de requisição inválido ({e}). Encerrando o worker.", file=sys.stderr)
+            sys.exit(1)
+        request_id = header.get("id")
+        pcm = read_exactly(stdin, pcm_bytes)
+        if pcm is None:
+            break
+        try:
+            options = {}
+            language = header.get("language")
+            auto_detect = not language or language.lower() == "auto"
+            if not auto_detect:
+                options["language"] = language
+            initial_prompt = header.get("initial_prompt")
+            if initial_prompt:
+                options["initial_prompt"] = initial_prompt
+
+            audio = np.frombuffer(pcm, dtype=np.int16).astype(np.float32) / 32768.0
+            if audio.size < SAMPLE_RATE // 10:
+                respond({"id": request_id, "text": "", "segments": []})
+                continue
+
+            response = {"id": request_id}
+            if auto_detect:
+                detected, probability = detect_language(
+                    model, audio, header.get("fallback_language"), float(header.get("min_language_probability", 0))
+                )
+                options["language"] = detected
+                response["language_probability"] = round(probability, 3)
+
+            result = model.transcribe(audio, word_timestamps=True, **options)
+            response.update({
+                "text": result["text"].strip(),
+                "language": options.get("language") or result.get("language"),
+                "segments": [serialize_segment(segment) for segment in result.get("segments", [])],
+            })
+            respond(response)
+        except Exception as e:
+            print(f"Ocorreu um erro no worker (run_whisper.py): {e}", file=sys.stderr)
+            respond({"id": request_id, "error": str(e)})
+
+
+if __name__ == "__main__" and len(sys.argv) > 1 and sys.argv[1] == "--worker":
+    if sys.stdout.encoding != 'utf-8':
+        try:
+            sys.stdout.reconfigure(encoding='utf-8')
+            sys.stderr.reconfigure(encoding='utf-8')
+        except Exception as e:
+            print(f"Warning: Could not reconfigure stdout/stderr to UTF-8: {e}", file=sys.stderr)
+    run_worker(sys.argv[2] if len(sys.argv) > 2 else "base")
+    sys.exit(0)
 
 if __name__ == "__main__":
     # Força a saída padrão para UTF-8 para lidar com caracteres especiais
@@ -0,0 +1,103 @@
+// src/services/ClientSendQueue.test.ts
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { describe, it } from 'node:test';
+import { WebSocket } from 'ws';
+import { ClientSendQueue, type SendQueueLimits } from './ClientSendQueue';
+
+/** Records what is handed to it; `written()` completes the oldest pending write, like the socket draining. */
+class FakeSocket {
+  public readyState: number = WebSocket.OPEN;
+  public sent: string[] = [];
+  private callbacks: (() => void)[] = [];
+
+  public send(data: string, callback: () => void) {
+    this.sent.push(data);
+    this.callbacks.push(callback);
+  }
+
+  public written() {
+    this.callbacks.shift()?.();
+  }
+}
+
+function createQueue(limits: Partial<SendQueueLimits> = {}) {
+  const socket = new FakeSocket();
+  const slowConsumerReasons: string[] = [];
+  const queue = new ClientSendQueue(
+    socket as unknown as WebSocket,
+    'client-1',
+    'listener',
+    { writeBufferBytes: 10, highWaterBytes: 1000, maxLagMs: 60000, ...limits },
+    reason => slowConsumerReasons.push(reason),
+  );
+  return { socket, queue, slowConsumerReasons };
+}
+
+describe('ClientSendQueue', () => {
+  it('hands the socket writeBufferBytes at a time and sends the rest as writes complete', () => {
+    const { socket, queue } = createQueue();
+    queue.send('aaaaaa');
+    queue.send('bbbbbb');
+    queue.send('cccccc');
+    assert.deepEqual(socket.sent, ['aaaaaa', 'bbbbbb']);
+    assert.equal(queue.pendingBytes, 18);
+
+    socket.written();
+    assert.deepEqual(socket.sent, ['aaaaaa', 'bbbbbb', 'cccccc']);
+    assert.equal(queue.pendingBytes, 12);
+    socket.written();
+    socket.written();
+    assert.equal(queue.pendingBytes, 0);
+    queue.close();
+  });
+
+  it('replaces a queued partial with the newer partial or the final of the same speaker', () => {
+    const { socket, queue } = createQueue({ writeBufferBytes: 1 });
+    queue.send('blocker');
+    queue.send('a: partial 1', { kind: 'partial', key: 'a' });
+    queue.send('b: partial 1', { kind: 'partial', key: 'b' });
+    queue.send('a: partial 2', { kind: 'partial', key: 'a' });
+    queue.send('b: final', { kind: 'final', key: 'b' });
+
+    for (let i = 0; i < 4; i++) socket.written();
+    assert.deepEqual(socket.sent, ['blocker', 'a: partial 2', 'b: final']);
+    queue.close();
+  });
+
+  it('drops queued partials before giving up on a client over the high-water mark', () => {
+    const { socket, queue, slowConsumerReasons } = createQueue({ writeBufferBytes: 1, highWaterBytes: 30 });
+    queue.send('0123456789');
+    queue.send('partial 0123456789', { kind: 'partial', key: 'a' });
+    queue.send('final 0123', { kind: 'final', key: 'b' });
+    assert.deepEqual(slowConsumerReasons, []);
+    assert.equal(queue.pendingBytes, 20);
+
+    queue.send('another 0123456789');
+    assert.deepEqual(slowConsumerReasons, ['38 bytes pending']);
+    assert.equal(queue.pendingBytes, 0);
+
+    queue.send('after close');
+    assert.deepEqual(socket.sent, ['0123456789']);
+  });
+
+  it('gives up on a client whose oldest message waited longer than maxLagMs', async () => {
+    const { queue, slowConsumerReasons } = createQueue({ writeBufferBytes: 1, maxLagMs: 20 });
+    queue.send('first');
+    queue.send('second');
+    assert.deepEqual(slowConsumerReasons, []);
+
+    await delay(40);
+    queue.send('third');
+    assert.equal(slowConsumerReasons.length, 1);
+    assert.match(slowConsumerReasons[0], /^\d+ms behind$/);
+  });
+
+  it('sends nothing once the socket is no longer open', () => {
+    const { socket, queue } = createQueue();
+    socket.readyState = WebSocket.CLOSING;
+    queue.send('late');
+    assert.deepEqual(socket.sent, []);
+    queue.close();
+  });
+});
@@ -0,0 +1,139 @@
+// src/services/ClientSendQueue.ts
+import { WebSocket } from 'ws';
+import { metrics } from './Metrics';
+
+/**
+ * How a message may be treated while it waits: a 'partial' is replaced by a newer partial
+ * or by the 'final' with the same key (the speaker's id), and partials are the first
+ * messages dropped when the queue fills up. Everything else is delivered in order or not at all.
+ */
+export interface OutboundOptions {
+  kind?: 'partial' | 'final';
+  key?: string;
+}
+
+export interface SendQueueLimits {
+  writeBufferBytes: number; // Handed to the socket at a time; the rest waits in the queue
+  highWaterBytes: number;   // Pending bytes (handed to the socket but not yet written, plus queued) that make a slow consumer
+  maxLagMs: number;         // Age of the oldest pending message that makes a slow consumer
+}
+
+interface QueuedMessage extends OutboundOptions {
+  data: string | Uint8Array;
+  bytes: number;
+  enqueuedAt: number;
+}
+
+const messagesDropped = metrics.counter('client_messages_dropped_total', 'Messages to clients dropped before they were sent, by reason.');
+const slowConsumerDisconnects = metrics.counter('slow_consumer_disconnects_total', 'Clients disconnected for not keeping up with their messages, by role and reason.');
+
+const activeQueues = new Set<ClientSendQueue>();
+
+/**
+ * Outgoing messages of one client. `WebSocket.send` buffers without limit, so a client
+ * on a bad connection would make the server hold everything sent to it. Here only
+ * `writeBufferBytes` are handed to the socket at a time and the rest waits in a queue,
+ * where stale partials are dropped; a client still more than `highWaterBytes` or
+ * `maxLagMs` behind after that is a slow consumer and `onSlowConsumer` disconnects it.
+ */
+export class ClientSendQueue {
+  public readonly clientId: string;
+  public readonly role: string;
+  private readonly socket: WebSocket;
+  private readonly limits: SendQueueLimits;
+  private readonly onSlowConsumer: (reason: string) => void;
+  private queue: QueuedMessage[] = [];
+  private queuedBytes = 0;
+  private inFlight: { bytes: number; enqueuedAt: number }[] = []; // Handed to the socket, in write order
+  private inFlightBytes = 0;
+  private closed = false;
+
+  constructor(socket: WebSocket, clientId: string, role: string, limits: SendQueueLimits, onSlowConsumer: (reason: string) => void) {
+    this.socket = socket;
+    this.clientId = clientId;
+    this.role = role;
+    this.limits = limits;
+    this.onSlowConsumer = onSlowConsumer;
+    activeQueues.add(this);
+  }
+
+  public send(data: string | Uint8Array, options: OutboundOptions = {}) {
+    if (this.closed || this.socket.readyState !== WebSocket.OPEN) return;
+    if (options.kind && options.key !== undefined) {
+      // A newer partial or the final of the same speaker makes the queued partial stale
+      this.dropPartials(message => message.key === options.key, 'superseded');
+    }
+    const bytes = typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength;
+    this.queue.push({ data, bytes, ...options, enqueuedAt: Date.now() });
+    this.queuedBytes += bytes;
+    this.flush();
+    this.checkPressure();
+  }
+
+  /** Forgets everything still queued; called once the socket is closed or being closed. */
+  public close() {
+    this.closed = true;
+    this.queue = [];
+    this.queuedBytes = 0;
+    this.inFlight = [];
+    this.inFlightBytes = 0;
+    activeQueues.delete(this);
+  }
+
+  public get pendingBytes(): number {
+    return this.inFlightBytes + this.queuedBytes;
+  }
+
+  /** How long the oldest message not yet written to the socket has been waiting. */
+  public get lagMs(): number {
+    const oldest = this.inFlight[0]?.enqueuedAt ?? this.queue[0]?.enqueuedAt;
+    return oldest === undefined ? 0 : Date.now() - oldest;
+  }
+
+  private flush() {
+    while (this.queue.length > 0 && this.inFlightBytes < this.limits.writeBufferBytes && this.socket.readyState === WebSocket.OPEN) {
+      const message = this.queue.shift()!;
+      this.queuedBytes -= message.bytes;
+      const entry = { bytes: message.bytes, enqueuedAt: message.enqueuedAt };
+      this.inFlight.push(entry);
+      this.inFlightBytes += entry.bytes;
+      // The callback runs once the frame is written out (or the socket failed), in send order
+      this.socket.send(message.data, () => {
+        if (this.closed) return;
+        this.inFlight.shift();
+        this.inFlightBytes -= entry.bytes;
+        this.flush();
+      });
+    }
+  }
+
+  private dropPartials(matches: (message: QueuedMessage) => boolean, reason: string) {
+    const kept = this.queue.filter(message => message.kind !== 'partial' || !matches(message));
+    const dropped = this.queue.length - kept.length;
+    if (dropped === 0) return;
+    this.queue = kept;
+    this.queuedBytes = kept.reduce((total, message) => total + message.bytes, 0);
+    messagesDropped.inc({ reason }, dropped);
+  }
+
+  private checkPressure() {
+    if (this.pendingBytes > this.limits.highWaterBytes) {
+      this.dropPartials(() => true, 'high_water');
+    }
+    let reason: 'high_water' | 'lag' | null = null;
+    if (this.pendingBytes > this.limits.highWaterBytes) reason = 'high_water';
+    else if (this.lagMs > this.limits.maxLagMs) reason = 'lag';
+    if (!reason) return;
+
+    const detail = reason === 'high_water' ? `${this.pendingBytes} bytes pending` : `${this.lagMs}ms behind`;
+    messagesDropped.inc({ reason: 'slow_consumer' }, this.queue.length);
+    slowConsumerDisconnects.inc({ role: this.role, reason });
+    this.close();
+    this.onSlowConsumer(detail);
+  }
+}
+
+metrics.gauge('client_send_pending_bytes', 'Bytes waiting to be written to each client.', () =>
+  Array.from(activeQueues, queue => ({ labels: { client: queue.clientId, role: queue.role }, value: queue.pendingBytes })));
+metrics.gauge('client_send_lag_seconds', 'Age of the oldest message not yet written to each client.', () =>
+  Array.from(activeQueues, queue => ({ labels: { client: queue.clientId, role: queue.role }, value: queue.lagMs / 1000 })));
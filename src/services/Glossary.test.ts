@@ -0,0 +1,97 @@
+// src/services/Glossary.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { enforceGlossary, glossaryEntriesFor, resolveGlossary, type GlossaryEnforcement, type GlossaryEntries } from './Glossary';
+import { DictionaryTranslationProvider } from './translation/DictionaryTranslationProvider';
+
+const provider = new DictionaryTranslationProvider({
+  'en:pt': { 'the': 'o', 'review': 'revisão', 'is': 'é', 'today': 'hoje' },
+});
+
+async function translate(text: string): Promise<string> {
+  return provider.translate({ text, sourceLanguage: 'en', targetLanguage: 'pt' });
+}
+
+/** Checks a translation the way the server does: only against the entries found in its source. */
+function check(sourceText: string, translatedText: string, entries: GlossaryEntries, enforcement: GlossaryEnforcement) {
+  return enforceGlossary(translatedText, glossaryEntriesFor(sourceText, entries), enforcement);
+}
+
+describe('enforceGlossary', () => {
+  const entries: GlossaryEntries = {
+    terms: [{ source: 'roadmap', target: 'plano de produto' }],
+    doNotTranslate: ['LiveVoice'],
+  };
+
+  it('accepts a translation that already uses the required terms', () => {
+    const result = check('The roadmap review', 'A revisão do plano de produto', entries, 'fix');
+    assert.deepEqual(result, { text: 'A revisão do plano de produto', violations: [], fixed: 0 });
+  });
+
+  it("replaces a source term the provider left untranslated when enforcement is 'fix'", async () => {
+    const source = 'The roadmap review is today';
+    const translated = await translate(source);
+    assert.equal(translated, 'O roadmap revisão é hoje');
+
+    const result = check(source, translated, entries, 'fix');
+    assert.equal(result.text, 'O plano de produto revisão é hoje');
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.fixed, 1);
+  });
+
+  it("only reports the violation when enforcement is 'flag'", async () => {
+    const source = 'The roadmap review is today';
+    const translated = await translate(source);
+
+    const result = check(source, translated, entries, 'flag');
+    assert.equal(result.text, translated);
+    assert.deepEqual(result.violations, [{ term: 'roadmap', expected: 'plano de produto' }]);
+    assert.equal(result.fixed, 0);
+  });
+
+  it('matches whole words only', () => {
+    const result = check('The roadmaps', 'Os roadmaps', entries, 'fix');
+    assert.deepEqual(result, { text: 'Os roadmaps', violations: [], fixed: 0 });
+  });
+
+  it('inserts targets literally, even when they look like replacement patterns', () => {
+    const dollars: GlossaryEntries = { terms: [{ source: 'price', target: "$& $1 $$ $'" }], doNotTranslate: [] };
+    const result = check('The price', 'O price', dollars, 'fix');
+    assert.equal(result.text, "O $& $1 $$ $'");
+  });
+
+  it('restores the casing of do-not-translate terms and reports the ones that were translated', () => {
+    const fixed = check('LiveVoice review', 'Revisão do livevoice', entries, 'fix');
+    assert.deepEqual(fixed, { text: 'Revisão do LiveVoice', violations: [], fixed: 1 });
+
+    const missing = check('LiveVoice review', 'Revisão da voz ao vivo', entries, 'fix');
+    assert.deepEqual(missing.violations, [{ term: 'LiveVoice', expected: 'LiveVoice' }]);
+  });
+});
+
+describe('resolveGlossary', () => {
+  const glossary = {
+    enforcement: 'fix' as const,
+    terms: [
+      { source: 'roadmap', target: 'plano de produto', language: 'pt' },
+      { source: 'roadmap', target: 'hoja de ruta', language: 'es' },
+      { source: 'LiveVoice Cloud', target: 'LiveVoice Cloud' },
+    ],
+    doNotTranslate: ['LiveVoice'],
+  };
+
+  it('keeps the terms of the target language and those without a language', () => {
+    assert.deepEqual(resolveGlossary(glossary, 'es'), {
+      terms: [
+        { source: 'roadmap', target: 'hoja de ruta' },
+        { source: 'LiveVoice Cloud', target: 'LiveVoice Cloud' },
+      ],
+      doNotTranslate: ['LiveVoice'],
+    });
+  });
+
+  it('applies terms of a base language to its regional variants', () => {
+    assert.deepEqual(resolveGlossary(glossary, 'pt-BR').terms.map(term => term.target), ['plano de produto', 'LiveVoice Cloud']);
+    assert.deepEqual(resolveGlossary(glossary, 'PT_pt').terms.map(term => term.target), ['plano de produto', 'LiveVoice Cloud']);
+  });
+});
@@ -0,0 +1,271 @@
+// src/services/Glossary.ts
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * What to do when a translation breaks the glossary: 'fix' rewrites source terms left
+ * untranslated into their required target and flags whatever it cannot repair; 'flag'
+ * only reports the violations.
+ */
+export const GlossaryEnforcementSchema = z.enum(['fix', 'flag']);
+export type GlossaryEnforcement = z.infer<typeof GlossaryEnforcementSchema>;
+
+export const GlossaryTermSchema = z.object({
+  source: z.string().trim().min(1),
+  target: z.string().trim().min(1),
+  language: z.string().trim().min(1).optional(), // Target language the term applies to; every language when omitted
+});
+export type GlossaryTerm = z.infer<typeof GlossaryTermSchema>;
+
+export const GlossarySchema = z.object({
+  enforcement: GlossaryEnforcementSchema.default('fix'),
+  terms: z.array(GlossaryTermSchema).default([]),
+  doNotTranslate: z.array(z.string().trim().min(1)).default([]), // Product names, acronyms, ... kept verbatim
+});
+export type Glossary = z.infer<typeof GlossarySchema>;
+
+/** The part of a glossary that applies to one target language, as handed to translation providers. */
+export interface GlossaryEntries {
+  terms: { source: string; target: string }[];
+  doNotTranslate: string[];
+}
+
+export interface GlossaryViolation {
+  term: string;     // Source term found in the text
+  expected: string; // What the translation had to contain
+}
+
+export interface GlossaryCheckResult {
+  text: string;
+  violations: GlossaryViolation[]; // Left after fixing, when enforcement is 'fix'
+  fixed: number;
+}
+
+export type GlossaryFormat = 'json' | 'csv';
+
+export class GlossaryParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GlossaryParseError';
+  }
+}
+
+/** Splits CSV text into rows of fields (RFC 4180: quoted fields may hold commas, quotes and newlines). */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * CSV glossaries need a header with a `source` column and optionally `target` and
+ * `language`. Rows without a target, or whose target equals the source, are do-not-translate terms.
+ * Enforcement is always 'fix'; the glossary API sets another one from its `enforcement` parameter.
+ */
+function parseCsvGlossary(content: string): Glossary {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) throw new GlossaryParseError('The CSV glossary is empty.');
+  const columns = header.map(name => name.trim().toLowerCase());
+  const sourceIndex = columns.indexOf('source');
+  const targetIndex = columns.indexOf('target');
+  const languageIndex = columns.indexOf('language');
+  if (sourceIndex === -1) {
+    throw new GlossaryParseError("The CSV glossary needs a header row with a 'source' column (and usually 'target' and 'language').");
+  }
+
+  const glossary: Glossary = { enforcement: 'fix', terms: [], doNotTranslate: [] };
+  rows.forEach(fields => {
+    const source = fields[sourceIndex]?.trim();
+    const target = targetIndex === -1 ? '' : fields[targetIndex]?.trim() || '';
+    const language = languageIndex === -1 ? '' : fields[languageIndex]?.trim() || '';
+    if (!source) return;
+    if (!target || target === source) {
+      glossary.doNotTranslate.push(source);
+    } else {
+      glossary.terms.push({ source, target, ...(language ? { language } : {}) });
+    }
+  });
+  return glossary;
+}
+
+export function parseGlossary(content: string, format: GlossaryFormat): Glossary {
+  if (format === 'csv') return parseCsvGlossary(content);
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new GlossaryParseError('The glossary is not valid JSON.');
+  }
+  const parsed = GlossarySchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new GlossaryParseError(`Invalid glossary: ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+function baseLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase();
+}
+
+/** Terms without a language apply to every target; 'pt' terms also apply to 'pt-BR'. */
+export function resolveGlossary(glossary: Glossary, targetLanguage: string): GlossaryEntries {
+  return {
+    terms: glossary.terms
+      .filter(term => !term.language || baseLanguage(term.language) === baseLanguage(targetLanguage))
+      .map(({ source, target }) => ({ source, target })),
+    doNotTranslate: glossary.doNotTranslate,
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Case-insensitive whole-word match (letters and digits on either side do not count as a boundary). */
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function containsTerm(text: string, term: string): boolean {
+  return termPattern(term).test(text);
+}
+
+/** Only the glossary entries that occur in `sourceText`, so prompts stay short. */
+export function glossaryEntriesFor(sourceText: string, entries: GlossaryEntries): GlossaryEntries {
+  return {
+    terms: entries.terms.filter(term => containsTerm(sourceText, term.source)),
+    doNotTranslate: entries.doNotTranslate.filter(term => containsTerm(sourceText, term)),
+  };
+}
+
+/**
+ * Post-check of a translation against the entries found in its source (see
+ * glossaryEntriesFor): every term must show up as its required target, and every
+ * do-not-translate term must survive verbatim. With 'fix', a source term the provider
+ * left untranslated is replaced by its target.
+ */
+export function enforceGlossary(translatedText: string, relevant: GlossaryEntries, enforcement: GlossaryEnforcement): GlossaryCheckResult {
+  let text = translatedText;
+  let fixed = 0;
+  const violations: GlossaryViolation[] = [];
+
+  relevant.terms.forEach(term => {
+    if (containsTerm(text, term.target)) return;
+    if (enforcement === 'fix' && containsTerm(text, term.source)) {
+      text = text.replace(termPattern(term.source), () => term.target); // A function, so '$&' in a target stays literal
+      fixed++;
+      return;
+    }
+    violations.push({ term: term.source, expected: term.target });
+  });
+  relevant.doNotTranslate.forEach(term => {
+    if (text.includes(term)) return;
+    if (enforcement === 'fix' && containsTerm(text, term)) {
+      text = text.replace(termPattern(term), () => term); // Only the casing changed
+      fixed++;
+      return;
+    }
+    violations.push({ term, expected: term });
+  });
+
+  return { text, violations, fixed };
+}
+
+const ROOM_FILE_PATTERN = /[^A-Za-z0-9_-]/g;
+
+/**
+ * One JSON file per room. The WebSocket server and the Next.js API run as separate
+ * processes, so reads go to disk and are cached only until the file changes.
+ */
+export class GlossaryStore {
+  private readonly directory: string;
+  private cache = new Map<string, { mtimeMs: number; glossary: Glossary }>();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async load(roomId: string): Promise<Glossary | null> {
+    const filePath = this.filePath(roomId);
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(filePath)).mtimeMs;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        this.cache.delete(roomId);
+        return null;
+      }
+      throw error;
+    }
+    const cached = this.cache.get(roomId);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.glossary;
+
+    const glossary = parseGlossary(await fs.readFile(filePath, 'utf-8'), 'json');
+    this.cache.set(roomId, { mtimeMs, glossary });
+    return glossary;
+  }
+
+  public async save(roomId: string, glossary: Glossary): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.filePath(roomId);
+    // Write then rename, so the WebSocket server never reads a half-written file
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(glossary, null, 2), 'utf-8');
+    await fs.rename(temporaryPath, filePath);
+  }
+
+  public async delete(roomId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(roomId));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private filePath(roomId: string): string {
+    // Room ids are free-form; the hash keeps rooms that only differ in special characters apart
+    const safeName = roomId.replace(ROOM_FILE_PATTERN, '_').substring(0, 60);
+    return path.join(this.directory, `${safeName}-${createHash('sha1').update(roomId).digest('hex').substring(0, 12)}.json`);
+  }
+}
+
+export const glossaryStore = new GlossaryStore(
+  process.env.GLOSSARY_DIR || path.join(process.cwd(), 'data', 'glossaries')
+);
@@ -0,0 +1,82 @@
+// src/services/InferenceScheduler.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InferenceScheduler, InferenceSupersededError } from './InferenceScheduler';
+
+/** Jobs that run until the test finishes them, recording the order they started in. */
+function createJobs() {
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+  const job = (name: string) => () => new Promise<string>(resolve => {
+    started.push(name);
+    finishers.set(name, () => resolve(name));
+  });
+  const finish = async (name: string) => {
+    finishers.get(name)!();
+    for (let i = 0; i < 3; i++) await new Promise(resolve => setImmediate(resolve));
+  };
+  return { started, job, finish };
+}
+
+describe('InferenceScheduler', () => {
+  it('runs at most maxConcurrency jobs and one job per session at a time', async () => {
+    const scheduler = new InferenceScheduler(2);
+    const { started, job, finish } = createJobs();
+    const a0 = scheduler.schedule('a', job('a0'));
+    scheduler.schedule('a', job('a1'));
+    scheduler.schedule('b', job('b0'));
+    scheduler.schedule('c', job('c0'));
+    assert.deepEqual(started, ['a0', 'b0']);
+
+    await finish('a0');
+    assert.equal(await a0, 'a0');
+    assert.deepEqual(started, ['a0', 'b0', 'c0']);
+    assert.equal(scheduler.queueDepth, 1);
+  });
+
+  it('replaces a waiting job with the newer one and keeps its place in line', async () => {
+    const scheduler = new InferenceScheduler(1);
+    const { started, job, finish } = createJobs();
+    scheduler.schedule('a', job('a0'));
+    const b0 = scheduler.schedule('b', job('b0'));
+    scheduler.schedule('c', job('c0'));
+    const b1 = scheduler.schedule('b', job('b1'));
+
+    await assert.rejects(b0, InferenceSupersededError);
+    await finish('a0');
+    assert.deepEqual(started, ['a0', 'b1']);
+    await finish('b1');
+    assert.equal(await b1, 'b1');
+    assert.deepEqual(started, ['a0', 'b1', 'c0']);
+    assert.equal(scheduler.getStats().find(stats => stats.sessionId === 'b')?.dropped, 1);
+  });
+
+  it('serves waiting sessions round-robin', async () => {
+    const scheduler = new InferenceScheduler(1);
+    const { started, job, finish } = createJobs();
+    scheduler.schedule('a', job('a0'));
+    scheduler.schedule('a', job('a1')); // Queued before b and c, but a just ran
+    scheduler.schedule('b', job('b0'));
+    scheduler.schedule('c', job('c0'));
+
+    await finish('a0');
+    await finish('b0');
+    scheduler.schedule('b', job('b1'));
+    await finish('c0');
+    await finish('a1');
+    assert.deepEqual(started, ['a0', 'b0', 'c0', 'a1', 'b1']);
+  });
+
+  it('rejects the waiting job of a cancelled session and forgets the session', async () => {
+    const scheduler = new InferenceScheduler(1);
+    const { started, job, finish } = createJobs();
+    scheduler.schedule('a', job('a0'));
+    const a1 = scheduler.schedule('a', job('a1'));
+
+    scheduler.cancel('a');
+    await assert.rejects(a1, InferenceSupersededError);
+    await finish('a0');
+    assert.deepEqual(started, ['a0']);
+    assert.deepEqual(scheduler.getStats(), []);
+  });
+});
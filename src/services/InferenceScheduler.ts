@@ -0,0 +1,161 @@
+// src/services/InferenceScheduler.ts
+import { metrics } from './Metrics';
+
+/** Rejection reason of a queued job that was replaced by a newer one from the same session before it ran. */
+export class InferenceSupersededError extends Error {
+  constructor(sessionId: string) {
+    super(`Inference job of session ${sessionId} was superseded by a newer window.`);
+    this.name = 'InferenceSupersededError';
+  }
+}
+
+export interface InferenceSessionStats {
+  sessionId: string;
+  queued: number;   // 0 or 1: a session never has more than one job waiting
+  running: boolean;
+  dropped: number;  // Jobs superseded before they ran
+  completed: number;
+  lastWaitMs: number;
+  averageWaitMs: number;
+}
+
+const inferenceWait = metrics.histogram('inference_queue_wait_seconds', 'Time transcription windows waited for an inference slot.');
+
+interface QueuedJob {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  enqueuedAt: number;
+}
+
+interface SessionState {
+  queued: QueuedJob | null;
+  running: boolean;
+  dropped: number;
+  completed: number;
+  lastWaitMs: number;
+  totalWaitMs: number;
+  cancelled: boolean;
+}
+
+/**
+ * Shares a fixed number of inference slots between every transcription session in the
+ * process. Each session runs at most one job at a time and keeps at most one waiting:
+ * scheduling again while a job waits replaces it, so a session that falls behind skips
+ * the windows it can no longer use instead of building a backlog. Waiting sessions are
+ * served round-robin: a session that just ran goes behind every other waiting session.
+ */
+export class InferenceScheduler {
+  private readonly maxConcurrency: number;
+  private running = 0;
+  private sessions = new Map<string, SessionState>();
+  private waitingOrder: string[] = []; // Sessions with a queued job, next to be served first
+
+  constructor(maxConcurrency: number) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  public schedule<T>(sessionId: string, run: () => Promise<T>): Promise<T> {
+    const session = this.getSession(sessionId);
+    session.cancelled = false;
+    return new Promise<T>((resolvePromise, reject) => {
+      // The job's result comes from its own `run`, so it is always a T
+      const resolve = (value: unknown) => resolvePromise(value as T);
+      const previous = session.queued;
+      if (previous) {
+        // Keep the session's place in line and the time it started waiting
+        session.dropped++;
+        previous.reject(new InferenceSupersededError(sessionId));
+        session.queued = { run, resolve, reject, enqueuedAt: previous.enqueuedAt };
+      } else {
+        session.queued = { run, resolve, reject, enqueuedAt: Date.now() };
+        this.waitingOrder.push(sessionId);
+      }
+      this.dispatch();
+    });
+  }
+
+  /** Rejects the session's waiting job and forgets the session once its running job (if any) settles. */
+  public cancel(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    if (session.queued) {
+      session.queued.reject(new InferenceSupersededError(sessionId));
+      session.queued = null;
+      this.waitingOrder = this.waitingOrder.filter(id => id !== sessionId);
+    }
+    session.cancelled = true;
+    if (!session.running) {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  public getStats(): InferenceSessionStats[] {
+    return Array.from(this.sessions, ([sessionId, session]) => ({
+      sessionId,
+      queued: session.queued ? 1 : 0,
+      running: session.running,
+      dropped: session.dropped,
+      completed: session.completed,
+      lastWaitMs: session.lastWaitMs,
+      averageWaitMs: session.completed > 0 ? session.totalWaitMs / session.completed : 0,
+    }));
+  }
+
+  public get queueDepth(): number {
+    return this.waitingOrder.length;
+  }
+
+  private getSession(sessionId: string): SessionState {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { queued: null, running: false, dropped: 0, completed: 0, lastWaitMs: 0, totalWaitMs: 0, cancelled: false };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private dispatch() {
+    while (this.running < this.maxConcurrency) {
+      // The oldest waiting session that is not already using a slot
+      const index = this.waitingOrder.findIndex(id => !this.sessions.get(id)?.running);
+      if (index === -1) return;
+      const [sessionId] = this.waitingOrder.splice(index, 1);
+      const session = this.sessions.get(sessionId)!;
+      const job = session.queued!;
+      session.queued = null;
+      session.running = true;
+      this.running++;
+
+      const waitMs = Date.now() - job.enqueuedAt;
+      session.lastWaitMs = waitMs;
+      inferenceWait.observe(waitMs / 1000);
+
+      job.run()
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          this.running--;
+          session.running = false;
+          session.completed++;
+          session.totalWaitMs += waitMs;
+          if (session.cancelled && !session.queued) {
+            this.sessions.delete(sessionId);
+          } else if (session.queued) {
+            // Round-robin: a session that was just served waits behind everyone else
+            this.waitingOrder = [...this.waitingOrder.filter(id => id !== sessionId), sessionId];
+          }
+          this.dispatch();
+        });
+    }
+  }
+}
+
+export const inferenceScheduler = new InferenceScheduler(parseInt(process.env.INFERENCE_CONCURRENCY || '1', 10));
+
+metrics.gauge('inference_queue_depth', 'Transcription windows waiting for an inference slot.', () => inferenceScheduler.queueDepth);
+metrics.gauge('inference_session_queued', 'Windows waiting for an inference slot, per session.', () =>
+  inferenceScheduler.getStats().map(stats => ({ labels: { session: stats.sessionId }, value: stats.queued })));
+metrics.gauge('inference_session_last_wait_seconds', 'Queue wait of the last window that ran, per session.', () =>
+  inferenceScheduler.getStats().map(stats => ({ labels: { session: stats.sessionId }, value: stats.lastWaitMs / 1000 })));
+metrics.gauge('inference_session_dropped_windows', 'Windows superseded before they ran, per session.', () =>
+  inferenceScheduler.getStats().map(stats => ({ labels: { session: stats.sessionId }, value: stats.dropped })));
@@ -0,0 +1,66 @@
+// src/services/JoinTokens.test.ts
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { ANY_ROOM, canAccessRoom, extractJoinToken, signJoinToken, verifyJoinToken } from './JoinTokens';
+
+const SECRET = 'test-secret';
+
+/** Re-signs arbitrary header and claims, as someone holding the secret would. */
+function forge(header: unknown, claims: unknown, secret = SECRET): string {
+  const unsigned = `${Buffer.from(JSON.stringify(header)).toString('base64url')}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+}
+
+describe('verifyJoinToken', () => {
+  it('returns the claims of a valid token', () => {
+    const verification = verifyJoinToken(signJoinToken({ role: 'speaker', room: 'sala', subject: 'ana' }, SECRET), SECRET);
+    assert.ok(verification.success);
+    assert.equal(verification.claims.role, 'speaker');
+    assert.equal(verification.claims.room, 'sala');
+    assert.equal(verification.claims.sub, 'ana');
+  });
+
+  it('rejects an expired token', () => {
+    const token = signJoinToken({ role: 'listener', room: 'sala', ttlSeconds: -1 }, SECRET);
+    assert.deepEqual(verifyJoinToken(token, SECRET), { success: false, reason: 'Token has expired.' });
+  });
+
+  it('rejects a token whose claims were changed after signing', () => {
+    const [header, claims, signature] = signJoinToken({ role: 'listener', room: 'sala' }, SECRET).split('.');
+    const promoted = { ...JSON.parse(Buffer.from(claims, 'base64url').toString('utf-8')), role: 'moderator' };
+    const tampered = `${header}.${Buffer.from(JSON.stringify(promoted)).toString('base64url')}.${signature}`;
+    assert.deepEqual(verifyJoinToken(tampered, SECRET), { success: false, reason: 'Invalid signature.' });
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = signJoinToken({ role: 'speaker', room: 'sala' }, 'other-secret');
+    assert.deepEqual(verifyJoinToken(token, SECRET), { success: false, reason: 'Invalid signature.' });
+  });
+
+  it('rejects malformed tokens, other algorithms and incomplete claims', () => {
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    assert.deepEqual(verifyJoinToken('not-a-token', SECRET), { success: false, reason: 'Malformed token.' });
+    assert.deepEqual(verifyJoinToken(forge({ alg: 'none' }, { role: 'speaker', room: 'sala', exp }), SECRET), { success: false, reason: "Unsupported algorithm 'none'." });
+    assert.deepEqual(verifyJoinToken(forge({ alg: 'HS256' }, { role: 'admin', room: 'sala', exp }), SECRET), { success: false, reason: 'Token is missing its role, room or expiry.' });
+    assert.deepEqual(verifyJoinToken(forge({ alg: 'HS256' }, { role: 'speaker', room: 'sala' }), SECRET), { success: false, reason: 'Token is missing its role, room or expiry.' });
+  });
+});
+
+describe('canAccessRoom', () => {
+  it('limits a token to its own room unless it grants every room', () => {
+    const verification = verifyJoinToken(signJoinToken({ role: 'listener', room: 'sala' }, SECRET), SECRET);
+    assert.ok(verification.success);
+    assert.ok(canAccessRoom(verification.claims, 'sala'));
+    assert.ok(!canAccessRoom(verification.claims, 'outra-sala'));
+    assert.ok(canAccessRoom({ ...verification.claims, room: ANY_ROOM }, 'outra-sala'));
+  });
+});
+
+describe('extractJoinToken', () => {
+  it('prefers the Authorization header over the query parameter', () => {
+    assert.equal(extractJoinToken('/?token=from-query', 'Bearer from-header'), 'from-header');
+    assert.equal(extractJoinToken('/?token=from-query', undefined), 'from-query');
+    assert.equal(extractJoinToken('/', null), null);
+  });
+});
@@ -0,0 +1,142 @@
+// src/services/JoinTokens.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { JoinRoleSchema, type JoinRole } from '../lib/protocol';
+
+export type { JoinRole };
+
+/** Room claim that grants access to every room. Only meant for operator-issued tokens. */
+export const ANY_ROOM = '*';
+
+const DEFAULT_TTL_SECONDS = 12 * 60 * 60;
+
+export interface JoinTokenClaims {
+  role: JoinRole;
+  room: string;
+  sub?: string; // Free-form subject, e.g. who the token was issued to
+  iat: number;  // Seconds since epoch
+  exp: number;
+}
+
+export interface JoinTokenRequest {
+  role: JoinRole;
+  room: string;
+  subject?: string;
+  ttlSeconds?: number; // Defaults to 12 hours
+}
+
+export type JoinTokenVerification =
+  | { success: true; claims: JoinTokenClaims }
+  | { success: false; reason: string };
+
+export function getJoinTokenSecret(): string | null {
+  return process.env.JOIN_TOKEN_SECRET || null;
+}
+
+/** Development escape hatch (AUTH_DISABLED=true without a secret): every client acts as a moderator of every room. */
+export function isAuthDisabled(): boolean {
+  return !getJoinTokenSecret() && process.env.AUTH_DISABLED === 'true';
+}
+
+export const ANONYMOUS_CLAIMS: JoinTokenClaims = { role: 'moderator', room: ANY_ROOM, iat: 0, exp: Number.MAX_SAFE_INTEGER };
+
+function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function sign(input: string, secret: string): string {
+  return createHmac('sha256', secret).update(input).digest('base64url');
+}
+
+/** Issues an HS256 JWT carrying the role and room the bearer may join. */
+export function signJoinToken(request: JoinTokenRequest, secret: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: JoinTokenClaims = {
+    role: request.role,
+    room: request.room,
+    ...(request.subject ? { sub: request.subject } : {}),
+    iat: now,
+    exp: now + (request.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+  };
+  const unsigned = `${base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(claims))}`;
+  return `${unsigned}.${sign(unsigned, secret)}`;
+}
+
+const JoinTokenHeaderSchema = z.object({
+  alg: z.string(),
+  typ: z.literal('JWT').optional(),
+});
+
+const JoinTokenClaimsSchema = z.object({
+  role: JoinRoleSchema,
+  room: z.string().min(1),
+  sub: z.string().optional(),
+  iat: z.number().default(0),
+  exp: z.number(),
+});
+
+/** Decodes one base64url JSON part of a token; undefined when it is not valid JSON. */
+function decodeTokenPart(part: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+export function verifyJoinToken(token: string, secret: string): JoinTokenVerification {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return { success: false, reason: 'Malformed token.' };
+  }
+  const [encodedHeader, encodedClaims, signature] = parts;
+
+  const expected = Buffer.from(sign(`${encodedHeader}.${encodedClaims}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { success: false, reason: 'Invalid signature.' };
+  }
+
+  const header = JoinTokenHeaderSchema.safeParse(decodeTokenPart(encodedHeader));
+  if (!header.success) {
+    return { success: false, reason: 'Malformed token.' };
+  }
+  if (header.data.alg !== 'HS256') {
+    return { success: false, reason: `Unsupported algorithm '${header.data.alg}'.` };
+  }
+  const claims = JoinTokenClaimsSchema.safeParse(decodeTokenPart(encodedClaims));
+  if (!claims.success) {
+    return { success: false, reason: 'Token is missing its role, room or expiry.' };
+  }
+  if (claims.data.exp <= Math.floor(Date.now() / 1000)) {
+    return { success: false, reason: 'Token has expired.' };
+  }
+  return { success: true, claims: claims.data };
+}
+
+export function canAccessRoom(claims: JoinTokenClaims, roomId: string): boolean {
+  return claims.room === ANY_ROOM || claims.room === roomId;
+}
+
+/**
+ * Extracts a join token from an upgrade/HTTP request: `Authorization: Bearer <token>`
+ * or, since browsers cannot set headers on WebSocket connections, a `token` query parameter.
+ */
+export function extractJoinToken(url: string | undefined, authorizationHeader: string | undefined | null): string | null {
+  if (authorizationHeader?.startsWith('Bearer ')) {
+    return authorizationHeader.substring('Bearer '.length).trim() || null;
+  }
+  if (!url) return null;
+  const token = new URL(url, 'http://localhost').searchParams.get('token');
+  return token?.trim() || null;
+}
+
+/** Verifies the join token of an HTTP request (Bearer header or `token` query parameter). */
+export function verifyRequestJoinToken(url: string | undefined, authorizationHeader: string | undefined | null): JoinTokenVerification {
+  if (isAuthDisabled()) return { success: true, claims: ANONYMOUS_CLAIMS };
+  const secret = getJoinTokenSecret();
+  if (!secret) return { success: false, reason: 'Join tokens are not configured on this server.' };
+  const token = extractJoinToken(url, authorizationHeader);
+  if (!token) return { success: false, reason: 'Missing join token.' };
+  return verifyJoinToken(token, secret);
+}
@@ -0,0 +1,136 @@
+// src/services/Metrics.ts
+
+/**
+ * Minimal Prometheus text-format registry for the WebSocket server's /metrics endpoint.
+ * Counters and histograms are updated in place; gauges are read through a callback at
+ * scrape time so they always reflect the live server state.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+function formatLabels(labels: MetricLabels, extra?: MetricLabels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  const escaped = entries.map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `{${escaped.join(',')}}`;
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(private readonly name: string, private readonly help: string) {}
+
+  public inc(labels: MetricLabels = {}, amount = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  public render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach(({ labels, value }) => lines.push(`${this.name}${formatLabels(labels)} ${value}`));
+    return lines;
+  }
+}
+
+export class Gauge implements Metric {
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => number | { labels: MetricLabels; value: number }[],
+  ) {}
+
+  public render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    const collected = this.collect();
+    if (typeof collected === 'number') {
+      lines.push(`${this.name} ${collected}`);
+    } else {
+      collected.forEach(({ labels, value }) => lines.push(`${this.name}${formatLabels(labels)} ${value}`));
+    }
+    return lines;
+  }
+}
+
+/** Latency buckets in seconds, from fast translations up to slow Whisper windows on CPU. */
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30];
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS,
+  ) {}
+
+  public observe(value: number, labels: MetricLabels = {}) {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  /** Starts a timer; calling the returned function records the elapsed seconds. */
+  public startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => void {
+    const startedAt = process.hrtime.bigint();
+    return (extraLabels) => this.observe(Number(process.hrtime.bigint() - startedAt) / 1e9, { ...labels, ...extraLabels });
+  }
+
+  public render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach(({ labels, counts, sum, count }) => {
+      this.buckets.forEach((bound, i) => lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  public gauge(name: string, help: string, collect: () => number | { labels: MetricLabels; value: number }[]): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  public histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  public render(): string {
+    return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Process-wide registry. Metrics owned by a service are declared next to it; the
+// server registers its own gauges and counters on startup.
+export const metrics = new MetricsRegistry();
+
+export const whisperLatency = metrics.histogram('whisper_transcription_seconds', 'Time spent transcribing one audio window with Whisper.');
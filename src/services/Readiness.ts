@@ -0,0 +1,110 @@
+// src/services/Readiness.ts
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import ffmpegPath from 'ffmpeg-static';
+import { findExecutable, getTtsEngineExecutable, type TtsEngineName } from './tts';
+
+export interface ReadinessCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: ReadinessCheck[];
+}
+
+const PYTHON_CHECK_TIMEOUT_MS = 5000;
+const READINESS_CACHE_MS = 10000; // Probes may hit /readyz every few seconds; don't spawn Python each time
+
+// Checkpoint files whisper.load_model() downloads for its aliases (see whisper._MODELS)
+const WHISPER_MODEL_FILES: Record<string, string> = {
+  large: 'large-v3.pt',
+  turbo: 'large-v3-turbo.pt',
+};
+
+async function checkFfmpeg(): Promise<ReadinessCheck> {
+  if (!ffmpegPath) {
+    return { name: 'ffmpeg', ok: false, detail: 'ffmpeg-static has no binary for this platform.' };
+  }
+  try {
+    await fs.access(ffmpegPath, fs.constants.X_OK);
+    return { name: 'ffmpeg', ok: true, detail: ffmpegPath };
+  } catch {
+    return { name: 'ffmpeg', ok: false, detail: `${ffmpegPath} is missing or not executable (was the ffmpeg-static install script skipped?).` };
+  }
+}
+
+function checkPython(): Promise<ReadinessCheck> {
+  const pythonExecutable = process.env.PYTHON_EXECUTABLE || 'python';
+  return new Promise(resolve => {
+    execFile(pythonExecutable, ['--version'], { timeout: PYTHON_CHECK_TIMEOUT_MS }, (error, stdout, stderr) => {
+      if (error) {
+        resolve({ name: 'python', ok: false, detail: `${pythonExecutable}: ${error.message}` });
+        return;
+      }
+      // Python 2 and some 3.x builds print the version to stderr
+      resolve({ name: 'python', ok: true, detail: `${pythonExecutable} (${(stdout || stderr).trim()})` });
+    });
+  });
+}
+
+/**
+ * Only an engine named in TTS_ENGINE must be installed; without it the server uses
+ * espeak-ng when present and otherwise leaves synthesis to the listeners' browsers.
+ */
+function checkTts(engine: TtsEngineName): ReadinessCheck {
+  const executable = getTtsEngineExecutable(engine);
+  if (!executable) return { name: 'tts', ok: true, detail: 'Server-side synthesis disabled.' };
+  const resolved = findExecutable(executable);
+  return resolved
+    ? { name: 'tts', ok: true, detail: `${engine} (${resolved})` }
+    : { name: 'tts', ok: false, detail: `TTS_ENGINE=${engine}, but '${executable}' is not installed. Server-side synthesis is off.` };
+}
+
+/** The model is ready when it is a local checkpoint path or already in Whisper's download cache. */
+async function checkWhisperModel(model: string): Promise<ReadinessCheck> {
+  const checkpoint = model.endsWith('.pt')
+    ? model
+    : path.join(
+        path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'whisper'), // Whisper's default download_root
+        WHISPER_MODEL_FILES[model] || `${model}.pt`,
+      );
+  try {
+    await fs.access(checkpoint, fs.constants.R_OK);
+    return { name: 'whisper_model', ok: true, detail: checkpoint };
+  } catch {
+    return { name: 'whisper_model', ok: false, detail: `Whisper model '${model}' not found at ${checkpoint}. Run the worker once to download it.` };
+  }
+}
+
+async function runChecks(): Promise<ReadinessReport> {
+  const checks: Promise<ReadinessCheck>[] = [checkFfmpeg()];
+  if (process.env.TTS_ENGINE) {
+    checks.push(Promise.resolve(checkTts(process.env.TTS_ENGINE as TtsEngineName)));
+  }
+  if ((process.env.STT_ENGINE || 'whisper') === 'whisper') {
+    checks.push(checkPython(), checkWhisperModel(process.env.WHISPER_MODEL || 'base'));
+  }
+  const results = await Promise.all(checks);
+  return { ready: results.every(check => check.ok), checks: results };
+}
+
+let cachedReport: { report: Promise<ReadinessReport>; checkedAt: number } | null = null;
+
+/**
+ * Checks the external dependencies a transcription stream needs: the ffmpeg-static
+ * binary, the TTS engine named in TTS_ENGINE and, for the Whisper engine, the Python
+ * executable and the default model (WHISPER_MODEL, 'base' unless set). Results are
+ * cached for a few seconds.
+ */
+export function checkReadiness(): Promise<ReadinessReport> {
+  const now = Date.now();
+  if (!cachedReport || now - cachedReport.checkedAt > READINESS_CACHE_MS) {
+    cachedReport = { report: runChecks(), checkedAt: now };
+  }
+  return cachedReport.report;
+}
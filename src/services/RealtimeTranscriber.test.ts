@@ -0,0 +1,116 @@
+// src/services/RealtimeTranscriber.test.ts
+import assert from 'node:assert/strict';
+import { describe, it, type TestContext } from 'node:test';
+import { InferenceScheduler } from './InferenceScheduler';
+import { RealtimeTranscriber } from './RealtimeTranscriber';
+import { STT_BYTES_PER_SECOND, type SttEngine, type SttSegment } from './stt';
+import { DEFAULT_VAD_OPTIONS } from './VoiceActivityDetector';
+
+const WORD_SECONDS = 0.5;
+
+/**
+ * Hears word `w<i>` from i * WORD_SECONDS to (i + 1) * WORD_SECONDS of the stream. Windows
+ * are always the latest audio, so the stream time of a window follows from what was fed.
+ */
+class TimelineSttEngine implements SttEngine {
+  public readonly name = 'timeline';
+  public readonly windows: [number, number][] = [];
+  private readonly streamSeconds: () => number;
+
+  constructor(streamSeconds: () => number) {
+    this.streamSeconds = streamSeconds;
+  }
+
+  public async transcribe(pcm: Buffer): Promise<SttSegment[]> {
+    const windowEnd = this.streamSeconds();
+    const windowStart = windowEnd - pcm.length / STT_BYTES_PER_SECOND;
+    this.windows.push([windowStart, windowEnd]);
+    const words = [];
+    for (let i = Math.ceil(windowStart / WORD_SECONDS); (i + 1) * WORD_SECONDS <= windowEnd; i++) {
+      words.push({ text: `w${i}`, start: i * WORD_SECONDS - windowStart, end: (i + 1) * WORD_SECONDS - windowStart });
+    }
+    if (words.length === 0) return [];
+    return [{ text: words.map(word => word.text).join(' '), start: words[0].start, end: words[words.length - 1].end, words }];
+  }
+}
+
+function createTranscriber(t: TestContext, sttEngine?: SttEngine) {
+  t.mock.timers.enable({ apis: ['setInterval'] });
+  let fedSeconds = 0;
+  const engine = new TimelineSttEngine(() => fedSeconds);
+  const finals: string[] = [];
+  const errors: string[] = [];
+  const transcriber = new RealtimeTranscriber({
+    language: 'en',
+    model: 'base',
+    targetLanguage: 'en',
+    sttEngine: sttEngine || engine,
+    scheduler: new InferenceScheduler(1),
+    vad: { ...DEFAULT_VAD_OPTIONS, enabled: false },
+    inputFormat: 'pcm',
+    onPartialTranscription: () => {},
+    onFinalTranscription: segment => finals.push(segment.text),
+    onError: error => errors.push(error.message),
+  });
+  transcriber.start();
+
+  const feed = (seconds: number) => {
+    transcriber.addAudioChunk(Buffer.alloc(seconds * STT_BYTES_PER_SECOND));
+    fedSeconds += seconds;
+  };
+  /** One interval tick, then lets the scheduled window run to completion. */
+  const tick = async () => {
+    t.mock.timers.tick(2000);
+    for (let i = 0; i < 5; i++) await new Promise(resolve => setImmediate(resolve));
+  };
+  const transcript = () => finals.join(' ').split(' ');
+  return { transcriber, engine, feed, tick, transcript, errors };
+}
+
+const spoken = (seconds: number) => Array.from({ length: seconds / WORD_SECONDS }, (_, i) => `w${i}`);
+
+describe('RealtimeTranscriber', () => {
+  it('finalizes every word once when each interval gets its window', async (t) => {
+    const { transcriber, feed, tick, transcript, errors } = createTranscriber(t);
+    for (let i = 0; i < 6; i++) {
+      feed(2);
+      await tick();
+    }
+    transcriber.stop();
+    assert.deepEqual(transcript(), spoken(12));
+    assert.deepEqual(errors, []);
+  });
+
+  it('does not lose words when windows were delayed or dropped', async (t) => {
+    const { transcriber, engine, feed, tick, transcript, errors } = createTranscriber(t);
+    feed(7);
+    await tick();
+    // The scheduler gave the next slot 6 seconds later: the intervals in between never ran
+    feed(6);
+    await tick();
+    transcriber.stop();
+
+    assert.deepEqual(engine.windows[0], [0, 7]);
+    assert.ok(engine.windows[1][0] <= 2, `second window starts at ${engine.windows[1][0]}s, after the uncommitted words`);
+    assert.deepEqual(transcript(), spoken(13));
+    assert.deepEqual(errors, []);
+  });
+
+  it('reports an engine that keeps failing once, and again after a window succeeded', async (t) => {
+    const outcomes = ['fail', 'fail', 'fail', 'ok', 'fail'];
+    const flaky: SttEngine = {
+      name: 'flaky',
+      transcribe: async () => {
+        if (outcomes.shift() === 'fail') throw new Error("Whisper model 'base' is unavailable");
+        return [];
+      },
+    };
+    const { transcriber, feed, tick, errors } = createTranscriber(t, flaky);
+    for (let i = 0; i < 5; i++) {
+      feed(2);
+      await tick();
+    }
+    transcriber.stop();
+    assert.deepEqual(errors, ["Whisper model 'base' is unavailable", "Whisper model 'base' is unavailable"]);
+  });
+});
@@ -1,52 +1,124 @@
 
 // src/services/RealtimeTranscriber.ts
 import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
-import { Writable, PassThrough } from 'stream';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
+import { Writable } from 'stream';
 import ffmpegPath from 'ffmpeg-static'; // Use ffmpeg-static for a portable ffmpeg path
+import { createSttEngine, STT_BYTES_PER_SECOND, STT_SAMPLE_RATE, type SttEngine } from './stt';
+import { TranscriptStabilizer, joinWords, toAbsoluteWords, type TimedWord } from './TranscriptStabilizer';
+import { inferenceScheduler, InferenceSupersededError, type InferenceScheduler } from './InferenceScheduler';
+import { DEFAULT_VAD_OPTIONS, VoiceActivityDetector, type VadOptions } from './VoiceActivityDetector';
+import type { AudioInputFormat } from '../lib/protocol';
+
+/** A committed piece of transcript. It will never change once emitted. */
+export interface FinalTranscriptionSegment {
+  id: string;
+  text: string;
+  start: number; // Seconds since the stream started
+  end: number;
+  language?: string; // Language it was recognized in, when the engine reports it
+  languageProbability?: number; // Average detection confidence, only when the source language is 'auto'
+}
 
-// Helper para encontrar o caminho do script Python
-const SCRIPT_PATH = path.join(process.cwd(), 'src', 'scripts', 'python', 'run_whisper.py');
+/** The volatile hypothesis after the last final segment. Each partial replaces the previous one. */
+export interface PartialTranscription {
+  text: string;
+  start: number | null; // Seconds since the stream started, null when the tail is empty
+}
 
 interface TranscriberOptions {
   language: string;
   model: string;
   targetLanguage: string; // Added targetLanguage
-  onTranscriptionReady: (fullTranscription: string, targetLanguage: string) => void;
+  sttEngine?: SttEngine; // Defaults to the engine selected by STT_ENGINE for this model
+  sessionId?: string; // Identifies this stream in the inference scheduler's stats; defaults to an internal id
+  scheduler?: InferenceScheduler; // Defaults to the process-wide inferenceScheduler
+  vad?: VadOptions; // Defaults to DEFAULT_VAD_OPTIONS
+  initialPrompt?: string; // Sent to the engine with every window, e.g. the topic or a sample sentence
+  vocabulary?: string[]; // Names and jargon the engine should prefer
+  inputFormat?: AudioInputFormat; // Container FFmpeg decodes ('webm' by default), or 'pcm' (used as is)
+  onPartialTranscription: (partial: PartialTranscription) => void;
+  onFinalTranscription: (segment: FinalTranscriptionSegment, targetLanguage: string) => void;
+  onSpeechStart?: (time: number) => void; // Seconds since the stream started
+  onSpeechEnd?: (time: number) => void;
   onError: (error: Error) => void;
+  onFailed?: (error: Error) => void; // The transcriber stopped itself (FFmpeg died); reported here instead of onError
 }
 
+// FFmpeg input demuxer for each container. The input is a pipe that cannot be seeked, so
+// MP4 only works fragmented, the way MediaRecorder writes it.
+const FFMPEG_DEMUXERS: Record<Exclude<AudioInputFormat, 'pcm'>, string> = {
+  webm: 'matroska', // The Matroska demuxer reads WebM; 'webm' only exists as a muxer
+  mp4: 'mp4',
+  ogg: 'ogg',
+  wav: 'wav',
+};
+
 /**
  * Manages a real-time audio transcription session using a persistent FFmpeg process
- * to convert incoming audio chunks (expected to be WebM/Opus) to raw PCM,
- * and then periodically transcribes windows of this PCM audio using a Whisper Python script.
+ * to convert incoming audio chunks (WebM, MP4, Ogg or WAV, see inputFormat) to raw PCM,
+ * and then periodically transcribes windows of this PCM audio with a pluggable SttEngine.
+ * Streams that already send PCM ('pcm' input format) skip FFmpeg altogether.
  */
 export class RealtimeTranscriber {
   private options: TranscriberOptions;
   private ffmpegProcess: ChildProcessWithoutNullStreams | null = null;
   private audioInputWriter: Writable | null = null; // This will be ffmpeg's stdin
   private pcmAudioBuffer: Buffer = Buffer.alloc(0);
+  private pcmRemainder: Buffer | null = null; // Odd trailing byte of a raw PCM chunk, completed by the next one
+  private totalPcmBytes = 0; // PCM bytes received since start(), used to place windows on the absolute stream timeline
+  private stabilizer = new TranscriptStabilizer();
+  private vad: VoiceActivityDetector | null = null;
+  private pendingPauseTime: number | null = null; // Set when the VAD detects a pause that still has to be finalized
+  private windowFloorTime = 0; // Audio before this point (seconds) was finalized at a pause and is never re-sent
   private whisperInterval: NodeJS.Timeout | null = null;
-  private lastFullTranscription = '';
-  private isProcessingWhisper = false;
+  private lastPartialText = '';
+  private lastCommittedSentence = ''; // Rolling context: fed back to the engine with the next window
+  private lastDetectedLanguage: string | undefined; // With language 'auto': fallback for unsure detections
+  private lastWindowError: string | null = null; // Message of the last failed window, until one succeeds
+  private nextSegmentNumber = 0;
   private uniqueId: string;
+  private sttEngine: SttEngine;
+  private scheduler: InferenceScheduler;
+  private schedulerSessionId: string;
 
 
   // Constants for the sliding window
   private static readonly WHISPER_INTERVAL_MS = 2000; // Process with Whisper every X ms
   private static readonly WHISPER_WINDOW_SECONDS = 7;   // Use the latest Y seconds of PCM audio for Whisper
+  // Whisper keeps only the last ~224 prompt tokens; the rolling context is shortened first so the vocabulary survives
+  private static readonly MAX_PROMPT_CHARS = 600;
 
   constructor(options: TranscriberOptions) {
     this.options = options;
     this.uniqueId = Date.now().toString() + Math.random().toString(36).substring(2,7);
-    console.log(`[RealtimeTranscriber-${this.uniqueId}] Instantiated. Lang: ${options.language}, Model: ${options.model}, Target: ${options.targetLanguage}`);
+    this.sttEngine = options.sttEngine || createSttEngine({ model: options.model });
+    this.scheduler = options.scheduler || inferenceScheduler;
+    this.schedulerSessionId = options.sessionId || this.uniqueId;
+    const vadOptions = options.vad || DEFAULT_VAD_OPTIONS;
+    if (vadOptions.enabled) {
+      this.vad = new VoiceActivityDetector(vadOptions, {
+        onSpeechStart: (time) => {
+          this.options.onSpeechStart?.(time);
+        },
+        onSpeechEnd: (time) => {
+          this.pendingPauseTime = time;
+          this.options.onSpeechEnd?.(time);
+        },
+      });
+    }
+    console.log(`[RealtimeTranscriber-${this.uniqueId}] Instantiated. Lang: ${options.language}, Model: ${options.model}, Target: ${options.targetLanguage}, Engine: ${this.sttEngine.name}`);
   }
 
   public start() {
-    console.log(`[RealtimeTranscriber-${this.uniqueId}] Starting transcription session...`);
-    
+    const inputFormat = this.inputFormat;
+    console.log(`[RealtimeTranscriber-${this.uniqueId}] Starting transcription session (input: ${inputFormat})...`);
+
+    if (inputFormat === 'pcm') {
+      // Chunks are already what Whisper needs: no decoder process to start
+      this.startWhisperInterval();
+      return;
+    }
+
     if (!ffmpegPath) {
         const errMsg = "[RealtimeTranscriber] ffmpeg-static path is null. Cannot start ffmpeg.";
         console.error(errMsg);
@@ -55,10 +127,10 @@ export class RealtimeTranscriber {
     }
 
     const ffmpegArgs = [
+      '-f', FFMPEG_DEMUXERS[inputFormat], // Input container, as declared by the client
       '-i', '-',              // Input from stdin
-      '-f', 'webm',           // Assume input format is webm (MediaRecorder typically outputs this with Opus)
       '-acodec', 'pcm_s16le', // Output audio codec: PCM 16-bit little-endian
-      '-ar', '16000',         // Output audio sample rate: 16kHz (common for STT)
+      '-ar', String(STT_SAMPLE_RATE), // Output audio sample rate: 16kHz (common for STT)
       '-ac', '1',             // Output audio channels: 1 (mono)
       '-f', 's16le',          // Output container format: raw s16le PCM
       'pipe:1'                // Output to stdout
@@ -70,14 +142,7 @@ export class RealtimeTranscriber {
 
       this.audioInputWriter = this.ffmpegProcess.stdin;
 
-      this.ffmpegProcess.stdout.on('data', (chunk: Buffer) => {
-        this.pcmAudioBuffer = Buffer.concat([this.pcmAudioBuffer, chunk]);
-        // Optional: Trim buffer if it gets too large, though WHISPER_WINDOW_SECONDS should manage active part
-        const maxBufferSize = (RealtimeTranscriber.WHISPER_WINDOW_SECONDS + 5) * 16000 * 2; // немного больше окна
-        if (this.pcmAudioBuffer.length > maxBufferSize) {
-            this.pcmAudioBuffer = this.pcmAudioBuffer.slice(-maxBufferSize);
-        }
-      });
+      this.ffmpegProcess.stdout.on('data', (chunk: Buffer) => this.appendPcm(chunk));
 
       this.ffmpegProcess.stderr.on('data', (data: Buffer) => {
         console.warn(`[FFmpeg-${this.uniqueId}] stderr: ${data.toString()}`);
@@ -85,8 +150,7 @@ export class RealtimeTranscriber {
 
       this.ffmpegProcess.on('error', (err) => {
         console.error(`[FFmpeg-${this.uniqueId}] Error in process:`, err);
-        this.options.onError(err);
-        this.stop(); // Ensure cleanup on error
+        this.fail(err); // Ensure cleanup on error
       });
 
       this.ffmpegProcess.on('close', (code) => {
@@ -94,16 +158,11 @@ export class RealtimeTranscriber {
         this.ffmpegProcess = null; // Mark as stopped
         // If stop wasn't called explicitly, this is an unexpected close.
         if (this.whisperInterval) { // Check if we were supposed to be running
-            this.options.onError(new Error(`FFmpeg process closed unexpectedly with code ${code}`));
-            this.stop();
+            this.fail(new Error(`FFmpeg process closed unexpectedly with code ${code}`));
         }
       });
 
-      this.whisperInterval = setInterval(
-        () => this.triggerWhisperProcessing(),
-        RealtimeTranscriber.WHISPER_INTERVAL_MS
-      );
-      console.log(`[RealtimeTranscriber-${this.uniqueId}] Whisper processing interval set up.`);
+      this.startWhisperInterval();
 
     } catch (error: any) {
       console.error(`[RealtimeTranscriber-${this.uniqueId}] Failed to spawn FFmpeg:`, error);
@@ -112,6 +171,10 @@ export class RealtimeTranscriber {
   }
 
   public addAudioChunk(chunk: Buffer) {
+    if (this.inputFormat === 'pcm') {
+      if (this.whisperInterval) this.appendPcm(this.alignPcm(chunk));
+      return;
+    }
     if (this.audioInputWriter && !this.audioInputWriter.destroyed) {
       try {
         this.audioInputWriter.write(chunk);
@@ -129,6 +192,8 @@ export class RealtimeTranscriber {
     if (this.whisperInterval) {
       clearInterval(this.whisperInterval);
       this.whisperInterval = null;
+      // The stream is over, so whatever is still volatile becomes final
+      this.emitFinal(this.stabilizer.flush());
     }
     if (this.audioInputWriter && !this.audioInputWriter.destroyed) {
       this.audioInputWriter.end();
@@ -147,160 +212,207 @@ export class RealtimeTranscriber {
       this.ffmpegProcess = null;
     }
     this.pcmAudioBuffer = Buffer.alloc(0);
-    this.lastFullTranscription = '';
-    this.isProcessingWhisper = false;
+    this.pcmRemainder = null;
+    this.totalPcmBytes = 0;
+    this.stabilizer.reset();
+    this.vad?.reset();
+    this.pendingPauseTime = null;
+    this.windowFloorTime = 0;
+    this.lastPartialText = '';
+    this.lastCommittedSentence = '';
+    this.lastDetectedLanguage = undefined;
+    this.lastWindowError = null;
+    this.scheduler.cancel(this.schedulerSessionId);
+    this.sttEngine.dispose?.();
     console.log(`[RealtimeTranscriber-${this.uniqueId}] Session stopped and resources cleaned up.`);
   }
 
-  private async triggerWhisperProcessing() {
-    if (this.isProcessingWhisper || this.pcmAudioBuffer.length === 0) {
-      return; // Avoid overlap or processing silence
+  /** The session cannot go on without its decoder: stop it and let the owner end the stream. */
+  private fail(error: Error) {
+    if (!this.whisperInterval) return; // Already stopped, e.g. 'close' following 'error'
+    this.stop();
+    if (this.options.onFailed) {
+      this.options.onFailed(error);
+    } else {
+      this.options.onError(error);
     }
+  }
+
+  private get inputFormat(): AudioInputFormat {
+    return this.options.inputFormat || 'webm';
+  }
 
-    this.isProcessingWhisper = true;
+  private startWhisperInterval() {
+    this.whisperInterval = setInterval(
+      () => this.triggerWhisperProcessing(),
+      RealtimeTranscriber.WHISPER_INTERVAL_MS
+    );
+    console.log(`[RealtimeTranscriber-${this.uniqueId}] Whisper processing interval set up.`);
+  }
+
+  /** Appends decoded 16 kHz mono s16le audio to the sliding buffer and feeds the VAD. */
+  private appendPcm(chunk: Buffer) {
+    if (chunk.length === 0) return;
+    this.pcmAudioBuffer = Buffer.concat([this.pcmAudioBuffer, chunk]);
+    this.totalPcmBytes += chunk.length;
+    this.vad?.process(chunk);
+    // Optional: Trim buffer if it gets too large, though WHISPER_WINDOW_SECONDS should manage active part
+    const maxBufferSize = (RealtimeTranscriber.WHISPER_WINDOW_SECONDS + 5) * STT_BYTES_PER_SECOND; // немного больше окна
+    if (this.pcmAudioBuffer.length > maxBufferSize) {
+        this.pcmAudioBuffer = this.pcmAudioBuffer.slice(-maxBufferSize);
+    }
+  }
 
-    const bytesPerSecondPCM = 16000 * 2; // 16kHz sample rate * 16-bit (2 bytes per sample)
+  /** Keeps raw PCM on sample boundaries: an odd trailing byte waits for the next chunk. */
+  private alignPcm(chunk: Buffer): Buffer {
+    const data = this.pcmRemainder ? Buffer.concat([this.pcmRemainder, chunk]) : chunk;
+    const alignedLength = data.length - (data.length % 2);
+    this.pcmRemainder = alignedLength < data.length ? data.subarray(alignedLength) : null;
+    return data.subarray(0, alignedLength);
+  }
+
+  /**
+   * Asks the shared scheduler for an inference slot. The window itself is cut only once
+   * the slot is granted, so a session that waited transcribes its latest audio; while
+   * a request is still waiting, newer ticks replace it rather than queueing behind it.
+   */
+  private triggerWhisperProcessing() {
+    if (this.pcmAudioBuffer.length === 0) {
+      return; // Nothing received yet
+    }
+    if (this.vad && !this.vad.isSpeaking() && this.pendingPauseTime === null) {
+      return; // Silence since the last finalized pause: nothing new to transcribe
+    }
+    this.scheduler.schedule(this.schedulerSessionId, () => this.transcribeLatestWindow()).catch((error) => {
+      if (!(error instanceof InferenceSupersededError)) {
+        console.error(`[RealtimeTranscriber-${this.uniqueId}] Unexpected scheduler error:`, error.message);
+      }
+    });
+  }
+
+  private async transcribeLatestWindow() {
+    if (!this.whisperInterval || this.pcmAudioBuffer.length === 0) {
+      return; // Stopped while waiting for a slot
+    }
+
+    const bytesPerSecondPCM = STT_BYTES_PER_SECOND; // 16kHz sample rate * 16-bit (2 bytes per sample)
     const windowBytes = RealtimeTranscriber.WHISPER_WINDOW_SECONDS * bytesPerSecondPCM;
     
-    const pcmAudioSlice = this.pcmAudioBuffer.length > windowBytes 
-        ? this.pcmAudioBuffer.slice(-windowBytes) 
+    // The scheduler may have delayed or dropped the windows in between, so reach back to the
+    // stabilizer's committed point (as far as the buffer allows) to transcribe everything
+    // after it; but never past audio that was already finalized at a pause
+    const bufferStartTime = (this.totalPcmBytes - this.pcmAudioBuffer.length) / bytesPerSecondPCM;
+    const offsetOf = (time: number) => Math.max(0, Math.floor((time - bufferStartTime) * bytesPerSecondPCM / 2) * 2);
+    const sliceStart = Math.max(
+      Math.min(this.pcmAudioBuffer.length - windowBytes, offsetOf(this.stabilizer.getCommittedUntil())),
+      offsetOf(this.windowFloorTime),
+    );
+    const pcmAudioSlice = sliceStart > 0
+        ? this.pcmAudioBuffer.slice(sliceStart)
         : Buffer.from(this.pcmAudioBuffer); // Use a copy
 
     if (pcmAudioSlice.length < bytesPerSecondPCM * 0.5) { // Need at least 0.5s of audio
         // console.log(`[RealtimeTranscriber-${this.uniqueId}] PCM audio slice too short (${pcmAudioSlice.length} bytes). Skipping Whisper.`);
-        this.isProcessingWhisper = false;
         return;
     }
 
-    let tempWavFilePath: string | null = null;
-    try {
-      const header = this.createWavHeader(pcmAudioSlice.length);
-      const tempWavBuffer = Buffer.concat([header, pcmAudioSlice]);
-      
-      tempWavFilePath = path.join(os.tmpdir(), `rt_whisper_${this.uniqueId}_${Date.now()}.wav`);
-      await fs.writeFile(tempWavFilePath, tempWavBuffer);
-
-      // console.log(`[RealtimeTranscriber-${this.uniqueId}] Executing Whisper on ${tempWavFilePath} (${(tempWavBuffer.length / 1024).toFixed(2)} KB)`);
-      const currentTranscriptionSegment = await this.executeWhisperScript(tempWavFilePath);
-      
-      // Basic logic to append or replace transcription based on overlap.
-      // A more sophisticated diff/merge would be better for perfect continuity.
-      if (currentTranscriptionSegment && currentTranscriptionSegment.trim() !== "") {
-        // This simple logic tries to find if the new segment significantly overlaps or continues the old one.
-        // It's not perfect and can lead to repetitions or gaps.
-        // For true streaming STT, Whisper models with streaming support or more advanced segment joining is needed.
-        // For now, we'll use a heuristic: if the new transcription contains a good part of the end of the old one,
-        // or if the old one is short, we try to merge. Otherwise, we might just append or replace.
-        
-        let updatedTranscription = this.lastFullTranscription;
-        const newText = currentTranscriptionSegment.trim();
-
-        // Heuristic: if new text is very different or last transcription was short, just use new text.
-        // This is a very naive approach to avoid massive duplication if Whisper re-transcribes a lot.
-        // A proper solution would involve timestamped words from Whisper and segment alignment.
-        if (!this.lastFullTranscription || this.lastFullTranscription.length < 10 || !newText.includes(this.lastFullTranscription.slice(-10))) {
-            if (this.lastFullTranscription && !newText.startsWith(this.lastFullTranscription) && !this.lastFullTranscription.endsWith(newText)) {
-                 updatedTranscription = (this.lastFullTranscription + " " + newText).trim();
-            } else {
-                 updatedTranscription = newText; // Or a smarter merge
-            }
-        } else {
-             // Try to find overlap and append only new parts
-            let overlapIndex = -1;
-            for (let i = Math.min(15, this.lastFullTranscription.length, newText.length); i > 3; i--) {
-                if (this.lastFullTranscription.endsWith(newText.substring(0, i))) {
-                    overlapIndex = i;
-                    break;
-                }
-            }
-            if (overlapIndex !== -1) {
-                updatedTranscription = this.lastFullTranscription + newText.substring(overlapIndex);
-            } else {
-                 updatedTranscription = (this.lastFullTranscription + " " + newText).trim();
-            }
-        }
+    // A pause detected before this window was cut is finalized once the window is transcribed
+    const pauseTime = this.pendingPauseTime;
+    this.pendingPauseTime = null;
 
+    // Absolute stream time (seconds) of the window, and the point before which words leave the next window
+    const windowEnd = this.totalPcmBytes / bytesPerSecondPCM;
+    const windowStart = windowEnd - pcmAudioSlice.length / bytesPerSecondPCM;
+    const stableBefore = windowEnd + RealtimeTranscriber.WHISPER_INTERVAL_MS / 1000 - RealtimeTranscriber.WHISPER_WINDOW_SECONDS;
 
-        if (updatedTranscription !== this.lastFullTranscription) {
-            // console.log(`[RealtimeTranscriber-${this.uniqueId}] New transcription: "${updatedTranscription.substring(0,50)}..." (Prev: "${this.lastFullTranscription.substring(0,50)}...")`);
-            this.lastFullTranscription = updatedTranscription;
-            this.options.onTranscriptionReady(this.lastFullTranscription, this.options.targetLanguage);
-        } else {
-            // console.log(`[RealtimeTranscriber-${this.uniqueId}] Transcription segment same as previous or resulted in no change: "${currentTranscriptionSegment.substring(0,50)}..."`);
-        }
+    try {
+      const segments = await this.sttEngine.transcribe(pcmAudioSlice, {
+        language: this.options.language,
+        prompt: this.buildPrompt(),
+        fallbackLanguage: this.options.language === 'auto' ? this.lastDetectedLanguage : undefined,
+      });
+      if (!this.whisperInterval) return; // Stopped while the engine was busy
+      this.lastWindowError = null;
+
+      // Commit the words two consecutive windows agree on (or that are leaving the window)
+      // and only keep re-hypothesizing the unstable tail.
+      const { committed, tail: hypothesisTail } = this.stabilizer.update(toAbsoluteWords(segments, windowStart), windowStart, stableBefore);
+      this.emitFinal(committed);
+      let tail = hypothesisTail;
+      if (pauseTime !== null) {
+          // The speaker paused: the tail will not change anymore, so it becomes a final segment
+          this.emitFinal(this.stabilizer.flush());
+          this.windowFloorTime = Math.max(this.windowFloorTime, pauseTime);
+          tail = [];
+      }
+
+      const partialText = joinWords(tail);
+      if (committed.length > 0 || pauseTime !== null || partialText !== this.lastPartialText) {
+          this.lastPartialText = partialText;
+          this.options.onPartialTranscription({ text: partialText, start: tail.length > 0 ? tail[0].start : null });
       }
 
     } catch (error: any) {
       console.error(`[RealtimeTranscriber-${this.uniqueId}] Error during Whisper processing cycle:`, error.message);
-      this.options.onError(error);
-    } finally {
-      if (tempWavFilePath) {
-        await fs.unlink(tempWavFilePath).catch(err => console.warn(`[RealtimeTranscriber-${this.uniqueId}] Failed to remove temp WAV file ${tempWavFilePath}:`, err.message));
+      if (pauseTime !== null && this.pendingPauseTime === null) {
+        this.pendingPauseTime = pauseTime; // Retry the pause finalization on the next cycle
+      }
+      // An engine that cannot run fails every window the same way: report it once, not every interval
+      if (error.message !== this.lastWindowError) {
+        this.options.onError(error);
       }
-      this.isProcessingWhisper = false;
+      this.lastWindowError = error.message;
     }
   }
 
-  private async executeWhisperScript(filePath: string): Promise<string> {
-    const pythonExecutable = process.env.PYTHON_EXECUTABLE || 'python';
-    const args = [SCRIPT_PATH, filePath, this.options.model, this.options.language];
-    
-    // console.log(`[RealtimeTranscriber-${this.uniqueId}] Spawning Python script: ${pythonExecutable} ${args.join(' ')}`);
-    const child = spawn(pythonExecutable, args);
-    let stdout = '';
-    let stderr = '';
-
-    // Set timeout for the Python script execution
-    const scriptTimeout = setTimeout(() => {
-        console.warn(`[RealtimeTranscriber-${this.uniqueId}] Python script execution timed out after 30s for ${filePath}. Killing process.`);
-        child.kill('SIGKILL');
-    }, 30000); // 30-second timeout
-
-    for await (const chunk of child.stdout) {
-      stdout += chunk;
-    }
-    for await (const chunk of child.stderr) {
-      stderr += chunk;
-    }
-    
-    clearTimeout(scriptTimeout); // Clear timeout if script finishes in time
-
-    const exitCode = await new Promise<number | null>(resolve => child.on('close', resolve));
-
-    if (stderr && !stderr.includes("UserWarning: 1Torch was not compiled with flash attention")) { // Log significant stderr
-      console.warn(`[WhisperScript-${this.uniqueId}] stderr for ${filePath}: ${stderr.trim()}`);
-    }
+  /**
+   * The engine prompt for the next window: the session's initial prompt and vocabulary,
+   * followed by the last committed sentence so the window continues the transcript.
+   */
+  private buildPrompt(): string | undefined {
+    const vocabulary = this.options.vocabulary?.length ? `${this.options.vocabulary.join(', ')}.` : '';
+    const fixedPart = [this.options.initialPrompt?.trim(), vocabulary].filter(Boolean).join(' ');
+    const contextBudget = RealtimeTranscriber.MAX_PROMPT_CHARS - fixedPart.length - 1;
+    const context = contextBudget > 0 ? this.lastCommittedSentence.slice(-contextBudget).trim() : '';
+    const prompt = [fixedPart, context].filter(Boolean).join(' ');
+    return prompt || undefined;
+  }
 
-    if (exitCode !== 0) {
-      const errorMsg = `Whisper script failed with exit code ${exitCode} for ${filePath}. Stderr: ${stderr.trim()}`;
-      console.error(`[WhisperScript-${this.uniqueId}] ${errorMsg}`);
-      throw new Error(errorMsg);
+  /** Emits the committed words as final segments, one per run of words recognized in the same language. */
+  private emitFinal(words: TimedWord[]) {
+    let runStart = 0;
+    for (let i = 1; i <= words.length; i++) {
+      if (i === words.length || words[i].language !== words[runStart].language) {
+        this.emitFinalSegment(words.slice(runStart, i));
+        runStart = i;
+      }
     }
-    
-    return stdout.trim();
   }
 
-  private createWavHeader(dataLength: number): Buffer {
-    const buffer = Buffer.alloc(44);
-    const sampleRate = 16000;
-    const numChannels = 1;
-    const bitsPerSample = 16;
-    const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
-    const blockAlign = numChannels * (bitsPerSample / 8);
-
-    buffer.write('RIFF', 0);
-    buffer.writeUInt32LE(36 + dataLength, 4); // ChunkSize
-    buffer.write('WAVE', 8);
-    buffer.write('fmt ', 12);
-    buffer.writeUInt32LE(16, 16); // Subchunk1Size (16 for PCM)
-    buffer.writeUInt16LE(1, 20);  // AudioFormat (1 for PCM)
-    buffer.writeUInt16LE(numChannels, 22);
-    buffer.writeUInt32LE(sampleRate, 24);
-    buffer.writeUInt32LE(byteRate, 28);
-    buffer.writeUInt16LE(blockAlign, 32);
-    buffer.writeUInt16LE(bitsPerSample, 34);
-    buffer.write('data', 36);
-    buffer.writeUInt32LE(dataLength, 40); // Subchunk2Size
-    return buffer;
+  private emitFinalSegment(words: TimedWord[]) {
+    if (words.length === 0) return;
+    const probabilities = words.map(word => word.languageProbability).filter((p): p is number => p !== undefined);
+    const segment: FinalTranscriptionSegment = {
+      id: `${this.uniqueId}-${this.nextSegmentNumber++}`,
+      text: joinWords(words),
+      start: words[0].start,
+      end: words[words.length - 1].end,
+      ...(words[0].language ? { language: words[0].language } : {}),
+      ...(probabilities.length > 0 ? { languageProbability: probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length } : {}),
+    };
+    if (segment.language) this.lastDetectedLanguage = segment.language;
+    this.lastCommittedSentence = lastSentence(`${this.lastCommittedSentence} ${segment.text}`).slice(-RealtimeTranscriber.MAX_PROMPT_CHARS);
+    this.options.onFinalTranscription(segment, this.options.targetLanguage);
   }
 }
+
+/**
+ * The last complete sentence of `text` plus whatever follows it. Segments are committed
+ * mid-sentence, so the unfinished sentence is kept together with the one before it.
+ */
+function lastSentence(text: string): string {
+  const sentences = text.trim().split(/(?<=[.!?…])\s+/);
+  return sentences.length > 1 && !/[.!?…]$/.test(sentences[sentences.length - 1])
+    ? sentences.slice(-2).join(' ')
+    : sentences[sentences.length - 1];
+}
@@ -0,0 +1,68 @@
+// src/services/TranscriptExport.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { exportTranscript, isTranscriptExportLanguage } from './TranscriptExport';
+import type { SessionTranscript } from './TranscriptStore';
+
+const transcript: SessionTranscript = {
+  sessionId: 'sala-1',
+  roomId: 'sala',
+  sourceLanguage: 'pt',
+  startedAt: '2026-10-19T10:00:00.000Z',
+  speakerName: 'Ana <moderadora>',
+  segments: [
+    { id: 's0', text: 'Bom dia a todos', start: 0.25, end: 2.5, translations: { en: 'Good morning everyone' } },
+    { id: 's1', text: 'Vamos começar', start: 3661.0005, end: 3663.9999, translations: {} },
+    { id: 's2', text: 'Obrigada', start: 3700, end: 3701, translations: { en: 'Thank you' } },
+  ],
+};
+
+describe('exportTranscript', () => {
+  it('numbers SRT cues and uses a comma before the milliseconds', () => {
+    const exported = exportTranscript(transcript, 'srt');
+    assert.equal(exported.fileName, 'sala-1.srt');
+    assert.equal(exported.content, [
+      '1\n00:00:00,250 --> 00:00:02,500\nBom dia a todos\n',
+      '2\n01:01:01,001 --> 01:01:04,000\nVamos começar\n',
+      '3\n01:01:40,000 --> 01:01:41,000\nObrigada\n',
+    ].join('\n'));
+  });
+
+  it('leaves out segments without a translation and renumbers the rest', () => {
+    const exported = exportTranscript(transcript, 'srt', 'en');
+    assert.equal(exported.fileName, 'sala-1.en.srt');
+    assert.equal(exported.content, [
+      '1\n00:00:00,250 --> 00:00:02,500\nGood morning everyone\n',
+      '2\n01:01:40,000 --> 01:01:41,000\nThank you\n',
+    ].join('\n'));
+  });
+
+  it('writes WebVTT with segment ids, a dot before the milliseconds and a voice span for the speaker', () => {
+    const exported = exportTranscript(transcript, 'vtt', 'en');
+    assert.equal(exported.contentType, 'text/vtt; charset=utf-8');
+    assert.equal(exported.content, [
+      'WEBVTT\n',
+      's0\n00:00:00.250 --> 00:00:02.500\n<v Ana  moderadora>Good morning everyone\n',
+      's2\n01:01:40.000 --> 01:01:41.000\n<v Ana  moderadora>Thank you\n',
+    ].join('\n'));
+  });
+
+  it('exports the source text as plain text when the source language is requested', () => {
+    assert.equal(exportTranscript(transcript, 'txt', 'pt').content, 'Bom dia a todos\nVamos começar\nObrigada\n');
+  });
+
+  it('keeps every translation in JSON', () => {
+    const exported = exportTranscript(transcript, 'json', 'en');
+    assert.equal(exported.fileName, 'sala-1.json');
+    assert.deepEqual(JSON.parse(exported.content), transcript);
+  });
+});
+
+describe('isTranscriptExportLanguage', () => {
+  it('accepts language codes and rejects anything that could change the file name', () => {
+    assert.ok(isTranscriptExportLanguage('en'));
+    assert.ok(isTranscriptExportLanguage('pt-BR'));
+    assert.ok(!isTranscriptExportLanguage('../en'));
+    assert.ok(!isTranscriptExportLanguage('en"; x'));
+  });
+});
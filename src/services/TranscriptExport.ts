@@ -0,0 +1,95 @@
+// src/services/TranscriptExport.ts
+import type { SessionTranscript, StoredSegment } from './TranscriptStore';
+
+export const TRANSCRIPT_EXPORT_FORMATS = ['txt', 'json', 'srt', 'vtt'] as const;
+export type TranscriptExportFormat = (typeof TRANSCRIPT_EXPORT_FORMATS)[number];
+
+export interface TranscriptExport {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+export function isTranscriptExportFormat(format: string): format is TranscriptExportFormat {
+  return (TRANSCRIPT_EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+// Language codes as the app uses them ('pt', 'en', 'zh-CN'); the code ends up in the download's file name
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]+)?$/;
+
+export function isTranscriptExportLanguage(language: string): boolean {
+  return LANGUAGE_CODE_PATTERN.test(language);
+}
+
+/** Formats seconds as HH:MM:SS followed by `separator` and milliseconds (',' for SRT, '.' for WebVTT). */
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Text of a segment in the requested language: the source text when no language is
+ * given (or it is the session's source language), otherwise the stored translation.
+ * Segments that were never translated into that language are left out.
+ */
+function segmentText(transcript: SessionTranscript, segment: StoredSegment, language?: string): string | null {
+  if (!language || language === transcript.sourceLanguage) return segment.text;
+  return segment.translations[language] ?? null;
+}
+
+/** WebVTT voice span naming the session's speaker, so players can show who is talking. */
+function vttCueText(transcript: SessionTranscript, text: string): string {
+  if (!transcript.speakerName) return text;
+  return `<v ${transcript.speakerName.replace(/[<>&]/g, ' ').trim()}>${text}`;
+}
+
+function cues(transcript: SessionTranscript, language?: string): { segment: StoredSegment; text: string }[] {
+  return transcript.segments
+    .map(segment => ({ segment, text: segmentText(transcript, segment, language) }))
+    .filter((cue): cue is { segment: StoredSegment; text: string } => cue.text !== null && cue.text.trim() !== '');
+}
+
+/**
+ * Renders a stored session as plain text, JSON, SRT or WebVTT. `language` selects a
+ * translation for the text-based formats; JSON always carries the source text and
+ * every translation.
+ */
+export function exportTranscript(transcript: SessionTranscript, format: TranscriptExportFormat, language?: string): TranscriptExport {
+  const baseName = language ? `${transcript.sessionId}.${language}` : transcript.sessionId;
+
+  switch (format) {
+    case 'json':
+      return {
+        content: JSON.stringify(transcript, null, 2),
+        contentType: 'application/json; charset=utf-8',
+        fileName: `${transcript.sessionId}.json`,
+      };
+    case 'txt':
+      return {
+        content: cues(transcript, language).map(cue => cue.text).join('\n') + '\n',
+        contentType: 'text/plain; charset=utf-8',
+        fileName: `${baseName}.txt`,
+      };
+    case 'srt':
+      return {
+        content: cues(transcript, language)
+          .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.segment.start, ',')} --> ${formatTimestamp(cue.segment.end, ',')}\n${cue.text}\n`)
+          .join('\n'),
+        contentType: 'application/x-subrip; charset=utf-8',
+        fileName: `${baseName}.srt`,
+      };
+    case 'vtt':
+      return {
+        content: 'WEBVTT\n\n' + cues(transcript, language)
+          .map(cue => `${cue.segment.id}\n${formatTimestamp(cue.segment.start, '.')} --> ${formatTimestamp(cue.segment.end, '.')}\n${vttCueText(transcript, cue.text)}\n`)
+          .join('\n'),
+        contentType: 'text/vtt; charset=utf-8',
+        fileName: `${baseName}.vtt`,
+      };
+  }
+}
@@ -0,0 +1,92 @@
+// src/services/TranscriptStabilizer.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FakeSttEngine, STT_BYTES_PER_SECOND } from './stt';
+import { TranscriptStabilizer, joinWords, toAbsoluteWords, type TimedWord } from './TranscriptStabilizer';
+
+/** Runs the fake engine over a window of `seconds` starting at `windowStart`, like RealtimeTranscriber does. */
+async function hypothesize(engine: FakeSttEngine, windowStart: number, seconds: number): Promise<TimedWord[]> {
+  const segments = await engine.transcribe(Buffer.alloc(seconds * STT_BYTES_PER_SECOND));
+  return toAbsoluteWords(segments, windowStart);
+}
+
+describe('TranscriptStabilizer', () => {
+  it('commits the prefix two consecutive hypotheses agree on', async () => {
+    const engine = new FakeSttEngine(['hello world how', 'hello world how are you']);
+    const stabilizer = new TranscriptStabilizer();
+
+    const first = stabilizer.update(await hypothesize(engine, 0, 3), 0, 0);
+    assert.deepEqual(first.committed, []);
+    assert.equal(joinWords(first.tail), 'hello world how');
+
+    const second = stabilizer.update(await hypothesize(engine, 0, 3), 0, 0);
+    assert.equal(joinWords(second.committed), 'hello world how');
+    assert.equal(joinWords(second.tail), 'are you');
+  });
+
+  it('ignores case and punctuation when comparing hypotheses', async () => {
+    const engine = new FakeSttEngine(['Hello world', 'hello, world! again']);
+    const stabilizer = new TranscriptStabilizer();
+
+    stabilizer.update(await hypothesize(engine, 0, 2), 0, 0);
+    const update = stabilizer.update(await hypothesize(engine, 0, 2), 0, 0);
+    assert.equal(joinWords(update.committed), 'hello, world!');
+    assert.equal(joinWords(update.tail), 'again');
+  });
+
+  it('commits words that end before stableBefore without waiting for agreement', async () => {
+    const engine = new FakeSttEngine(['one two three four']);
+    const stabilizer = new TranscriptStabilizer();
+
+    const update = stabilizer.update(await hypothesize(engine, 0, 4), 0, 2);
+    assert.equal(joinWords(update.committed), 'one two');
+    assert.equal(joinWords(update.tail), 'three four');
+  });
+
+  it('does not commit a word twice when the next window repeats it with drifted timestamps', async () => {
+    const engine = new FakeSttEngine(['hello world how', 'hello world how are you', 'world how are you doing']);
+    const stabilizer = new TranscriptStabilizer();
+
+    stabilizer.update(await hypothesize(engine, 0, 3), 0, 0);
+    stabilizer.update(await hypothesize(engine, 0, 3), 0, 0); // Commits "hello world how", up to 1.8s
+    // The window slid by a second: "world" lies before the commit point, "how" after it
+    const update = stabilizer.update(await hypothesize(engine, 1, 3), 1, 0);
+    assert.equal(joinWords(update.committed), 'are you');
+    assert.equal(joinWords(update.tail), 'doing');
+  });
+
+  it('commits the tail when the next window starts after it', async () => {
+    const engine = new FakeSttEngine(['one two three four five six', 'nine ten eleven']);
+    const stabilizer = new TranscriptStabilizer();
+
+    const first = stabilizer.update(await hypothesize(engine, 0, 6), 0, 2);
+    assert.equal(joinWords(first.committed), 'one two');
+    // Windows were delayed: the next one starts at 8s and never hears "three" to "six" again
+    const update = stabilizer.update(await hypothesize(engine, 8, 3), 8, 0);
+    assert.equal(joinWords(update.committed), 'three four five six');
+    assert.equal(joinWords(update.tail), 'nine ten eleven');
+  });
+
+  it('commits only the part of the tail the next window no longer covers', async () => {
+    const engine = new FakeSttEngine(['one two three four five six', 'five six seven']);
+    const stabilizer = new TranscriptStabilizer();
+
+    stabilizer.update(await hypothesize(engine, 0, 6), 0, 2);
+    const update = stabilizer.update(await hypothesize(engine, 4, 3), 4, 0);
+    assert.equal(joinWords(update.committed), 'three four five six');
+    assert.equal(joinWords(update.tail), 'seven');
+  });
+
+  it('flushes the tail and starts over after reset', async () => {
+    const engine = new FakeSttEngine(['see you tomorrow']);
+    const stabilizer = new TranscriptStabilizer();
+
+    stabilizer.update(await hypothesize(engine, 0, 3), 0, 0);
+    assert.equal(joinWords(stabilizer.flush()), 'see you tomorrow');
+    assert.deepEqual(stabilizer.flush(), []);
+
+    stabilizer.reset();
+    const update = stabilizer.update(await hypothesize(engine, 0, 3), 0, 3);
+    assert.equal(joinWords(update.committed), 'see you tomorrow');
+  });
+});
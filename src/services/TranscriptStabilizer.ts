@@ -0,0 +1,160 @@
+// src/services/TranscriptStabilizer.ts
+import type { SttSegment } from './stt';
+
+/** A recognized word positioned on the absolute stream timeline (seconds since the stream started). */
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  language?: string; // Carried over from the segment, so committed text can be split where the language changes
+  languageProbability?: number;
+}
+
+export interface StabilizerUpdate {
+  committed: TimedWord[]; // Words committed by this update, in order
+  tail: TimedWord[];      // Current unstable hypothesis after the committed text
+}
+
+/**
+ * Converts window-relative segments into absolute words. Engines without word
+ * timestamps get their segment duration spread evenly across the segment's words.
+ */
+export function toAbsoluteWords(segments: SttSegment[], windowStart: number): TimedWord[] {
+  const words: TimedWord[] = [];
+  segments.forEach(segment => {
+    const language = {
+      ...(segment.language ? { language: segment.language } : {}),
+      ...(segment.languageProbability !== undefined ? { languageProbability: segment.languageProbability } : {}),
+    };
+    if (segment.words && segment.words.length > 0) {
+      segment.words.forEach(word => {
+        if (word.text.trim()) {
+          words.push({ text: word.text.trim(), start: windowStart + word.start, end: windowStart + word.end, ...language });
+        }
+      });
+      return;
+    }
+    const tokens = segment.text.trim().split(/\s+/).filter(Boolean);
+    const step = tokens.length > 0 ? (segment.end - segment.start) / tokens.length : 0;
+    tokens.forEach((token, i) => {
+      words.push({
+        text: token,
+        start: windowStart + segment.start + i * step,
+        end: windowStart + segment.start + (i + 1) * step,
+        ...language,
+      });
+    });
+  });
+  return words;
+}
+
+export function joinWords(words: TimedWord[]): string {
+  return words.map(word => word.text).join(' ');
+}
+
+function normalizeWord(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * "Local agreement" stabilizer for overlapping sliding-window hypotheses.
+ *
+ * Each hypothesis only contributes the words after the committed point in time. A word
+ * is committed once two consecutive hypotheses agree on it (longest common prefix), or
+ * unconditionally once it ends before `stableBefore`, i.e. it is about to leave the
+ * window and will not be re-hypothesized. Everything else stays in the volatile tail.
+ * Tail words a window no longer covers (it starts after them, e.g. because windows were
+ * delayed or dropped) cannot be agreed on anymore, so they are committed as they are.
+ */
+export class TranscriptStabilizer {
+  private static readonly MAX_BOUNDARY_NGRAM = 5;
+  private static readonly BOUNDARY_SECONDS = 1;
+
+  private committedWords: TimedWord[] = []; // Only the last MAX_BOUNDARY_NGRAM, for the boundary match
+  private committedUntil = 0;
+  private previousHypothesis: TimedWord[] = [];
+  private tail: TimedWord[] = [];
+
+  public update(hypothesis: TimedWord[], windowStart: number, stableBefore: number): StabilizerUpdate {
+    const uncovered = this.commitUncoveredTail(windowStart);
+    const current = this.dropCommittedOverlap(hypothesis);
+
+    let agreed = 0;
+    while (
+      agreed < current.length &&
+      agreed < this.previousHypothesis.length &&
+      normalizeWord(current[agreed].text) === normalizeWord(this.previousHypothesis[agreed].text)
+    ) {
+      agreed++;
+    }
+    while (agreed < current.length && current[agreed].end <= stableBefore) {
+      agreed++;
+    }
+
+    const agreedWords = current.slice(0, agreed);
+    this.commit(agreedWords);
+    this.tail = current.slice(agreed);
+    this.previousHypothesis = this.tail;
+    return { committed: [...uncovered, ...agreedWords], tail: this.tail };
+  }
+
+  /** End of the last committed word (seconds since the stream started). */
+  public getCommittedUntil(): number {
+    return this.committedUntil;
+  }
+
+  /** Commits whatever is left in the tail, e.g. when the stream ends. */
+  public flush(): TimedWord[] {
+    const committed = this.tail;
+    this.commit(committed);
+    this.tail = [];
+    this.previousHypothesis = [];
+    return committed;
+  }
+
+  public reset() {
+    this.committedWords = [];
+    this.committedUntil = 0;
+    this.previousHypothesis = [];
+    this.tail = [];
+  }
+
+  /** Commits the leading tail words whose midpoint lies before `windowStart`. */
+  private commitUncoveredTail(windowStart: number): TimedWord[] {
+    const covered = this.tail.findIndex(word => (word.start + word.end) / 2 >= windowStart);
+    const uncovered = covered === -1 ? this.tail : this.tail.slice(0, covered);
+    if (uncovered.length === 0) return [];
+    this.commit(uncovered);
+    this.tail = this.tail.slice(uncovered.length);
+    this.previousHypothesis = this.tail;
+    return uncovered;
+  }
+
+  private commit(words: TimedWord[]) {
+    if (words.length === 0) return;
+    this.committedWords.push(...words);
+    this.committedWords.splice(0, Math.max(0, this.committedWords.length - TranscriptStabilizer.MAX_BOUNDARY_NGRAM));
+    this.committedUntil = words[words.length - 1].end;
+  }
+
+  /**
+   * Drops words that belong to audio already committed: first by time (midpoint before
+   * the commit point), then by matching the last committed n-gram at the boundary,
+   * since Whisper's timestamps drift by a few hundred milliseconds between windows.
+   */
+  private dropCommittedOverlap(hypothesis: TimedWord[]): TimedWord[] {
+    const words = hypothesis.filter(word => (word.start + word.end) / 2 > this.committedUntil);
+    if (words.length === 0 || this.committedWords.length === 0) return words;
+    if (words[0].start > this.committedUntil + TranscriptStabilizer.BOUNDARY_SECONDS) return words;
+
+    const maxN = Math.min(TranscriptStabilizer.MAX_BOUNDARY_NGRAM, words.length, this.committedWords.length);
+    for (let n = maxN; n > 0; n--) {
+      const committedTail = this.committedWords.slice(-n).map(word => normalizeWord(word.text)).join(' ');
+      const hypothesisHead = words.slice(0, n).map(word => normalizeWord(word.text)).join(' ');
+      if (committedTail === hypothesisHead) {
+        return words.slice(n);
+      }
+    }
+    return words;
+  }
+}
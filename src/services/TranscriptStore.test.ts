@@ -0,0 +1,57 @@
+// src/services/TranscriptStore.test.ts
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { TranscriptStore, createSessionId, isValidSessionId } from './TranscriptStore';
+
+describe('TranscriptStore', () => {
+  let directory: string;
+  let store: TranscriptStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'transcript-store-test-'));
+    store = new TranscriptStore(directory);
+  });
+
+  afterEach(() => fs.rm(directory, { recursive: true, force: true }));
+
+  it('loads the segments and translations of a session in the order they were recorded', async () => {
+    const sessionId = createSessionId('Sala de reunião');
+    assert.ok(isValidSessionId(sessionId));
+    void store.startSession({ sessionId, roomId: 'Sala de reunião', sourceLanguage: 'pt', startedAt: '2026-10-19T10:00:00.000Z' });
+    void store.recordSegment(sessionId, { id: 's0', text: 'Bom dia', start: 0, end: 1.2 });
+    void store.recordTranslation(sessionId, 's0', 'en', 'Good morning');
+    void store.recordSegment(sessionId, { id: 's1', text: 'Hello', start: 1.5, end: 2, language: 'en' });
+
+    assert.deepEqual(await store.loadSession(sessionId), {
+      sessionId,
+      roomId: 'Sala de reunião',
+      sourceLanguage: 'pt',
+      startedAt: '2026-10-19T10:00:00.000Z',
+      segments: [
+        { id: 's0', text: 'Bom dia', start: 0, end: 1.2, translations: { en: 'Good morning' } },
+        { id: 's1', text: 'Hello', start: 1.5, end: 2, language: 'en', translations: {} },
+      ],
+    });
+  });
+
+  it('forgets the write chain of a session once its writes are done', async () => {
+    const write = store.recordSegment('room-a1', { id: 's0', text: 'Oi', start: 0, end: 1 });
+    assert.equal(store['writeChains'].size, 1);
+    await write;
+    assert.equal(store['writeChains'].size, 0);
+  });
+
+  it('rejects session ids that are not safe file names', async () => {
+    await assert.rejects(store.recordSegment('../escape', { id: 's0', text: 'Oi', start: 0, end: 1 }), /Invalid session id/);
+    assert.equal(await store.loadSession('../escape'), null);
+  });
+
+  it('lists sessions newest first', async () => {
+    await store.startSession({ sessionId: 'a-1', roomId: 'a', sourceLanguage: 'pt', startedAt: '2026-10-18T10:00:00.000Z' });
+    await store.startSession({ sessionId: 'b-1', roomId: 'b', sourceLanguage: 'en', startedAt: '2026-10-19T10:00:00.000Z' });
+    assert.deepEqual((await store.listSessions()).map(session => session.sessionId), ['b-1', 'a-1']);
+  });
+});
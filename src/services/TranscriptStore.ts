@@ -0,0 +1,179 @@
+// src/services/TranscriptStore.ts
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface SessionInfo {
+  sessionId: string;
+  roomId: string;
+  sourceLanguage: string;
+  startedAt: string; // ISO timestamp; segment times are seconds relative to it
+  speakerId?: string; // Who spoke in this session (one session per speaker stream)
+  speakerName?: string;
+}
+
+export interface StoredSegment {
+  id: string;
+  text: string;
+  start: number;
+  end: number;
+  language?: string; // Recognized language, when it differs per segment ('auto' sessions)
+  translations: Record<string, string>; // targetLanguage -> translated text
+}
+
+export interface SessionTranscript extends SessionInfo {
+  segments: StoredSegment[];
+}
+
+type TranscriptRecord =
+  | ({ kind: 'session' } & SessionInfo)
+  | { kind: 'segment'; segmentId: string; text: string; start: number; end: number; language?: string }
+  | { kind: 'translation'; segmentId: string; targetLanguage: string; text: string };
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_PATTERN.test(sessionId);
+}
+
+export function createSessionId(roomId: string): string {
+  const safeRoomId = roomId.replace(/[^A-Za-z0-9_-]/g, '_').substring(0, 40);
+  return `${safeRoomId}-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 7)}`;
+}
+
+/**
+ * Append-only transcript log: one JSONL file per session holding the session header,
+ * every committed segment and every translation produced for it. Writes for a session
+ * are chained so records land in the order they were made; a chain is forgotten once
+ * its last write is done.
+ */
+export class TranscriptStore {
+  private readonly directory: string;
+  private writeChains = new Map<string, Promise<void>>(); // Last pending write per session
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public startSession(info: SessionInfo): Promise<void> {
+    return this.append(info.sessionId, { kind: 'session', ...info });
+  }
+
+  public recordSegment(sessionId: string, segment: { id: string; text: string; start: number; end: number; language?: string }): Promise<void> {
+    return this.append(sessionId, {
+      kind: 'segment',
+      segmentId: segment.id,
+      text: segment.text,
+      start: segment.start,
+      end: segment.end,
+      ...(segment.language ? { language: segment.language } : {}),
+    });
+  }
+
+  public recordTranslation(sessionId: string, segmentId: string, targetLanguage: string, text: string): Promise<void> {
+    return this.append(sessionId, { kind: 'translation', segmentId, targetLanguage, text });
+  }
+
+  public async loadSession(sessionId: string): Promise<SessionTranscript | null> {
+    if (!isValidSessionId(sessionId)) return null;
+    await this.writeChains.get(sessionId);
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(sessionId), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    let transcript: SessionTranscript | null = null;
+    const segmentsById = new Map<string, StoredSegment>();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      let record: TranscriptRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        console.warn(`[TranscriptStore] Skipping corrupt line in session ${sessionId}.`);
+        continue;
+      }
+      if (record.kind === 'session') {
+        const { kind: _kind, ...info } = record;
+        transcript = { ...info, segments: [] };
+      } else if (record.kind === 'segment' && transcript) {
+        const segment: StoredSegment = {
+          id: record.segmentId,
+          text: record.text,
+          start: record.start,
+          end: record.end,
+          ...(record.language ? { language: record.language } : {}),
+          translations: {},
+        };
+        segmentsById.set(segment.id, segment);
+        transcript.segments.push(segment);
+      } else if (record.kind === 'translation') {
+        const segment = segmentsById.get(record.segmentId);
+        if (segment) segment.translations[record.targetLanguage] = record.text;
+      }
+    }
+    return transcript;
+  }
+
+  public async listSessions(): Promise<SessionInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    const sessions = await Promise.all(
+      files
+        .filter(file => file.endsWith('.jsonl'))
+        .map(async file => {
+          const handle = await fs.open(path.join(this.directory, file), 'r');
+          try {
+            const buffer = Buffer.alloc(4096);
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+            const header = JSON.parse(buffer.subarray(0, bytesRead).toString('utf-8').split('\n')[0]);
+            if (header.kind !== 'session') return null;
+            const { kind: _kind, ...info } = header;
+            return info as SessionInfo;
+          } catch {
+            return null;
+          } finally {
+            await handle.close();
+          }
+        })
+    );
+    return sessions
+      .filter((session): session is SessionInfo => session !== null)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.directory, `${sessionId}.jsonl`);
+  }
+
+  private append(sessionId: string, record: TranscriptRecord): Promise<void> {
+    if (!isValidSessionId(sessionId)) {
+      return Promise.reject(new Error(`Invalid session id '${sessionId}'.`));
+    }
+    const previous = this.writeChains.get(sessionId) || Promise.resolve();
+    const next = previous
+      .then(async () => {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.appendFile(this.filePath(sessionId), JSON.stringify(record) + '\n', 'utf-8');
+      })
+      .catch(error => {
+        console.error(`[TranscriptStore] Failed to write ${record.kind} record for session ${sessionId}:`, error.message);
+      })
+      .finally(() => {
+        if (this.writeChains.get(sessionId) === next) this.writeChains.delete(sessionId);
+      });
+    this.writeChains.set(sessionId, next);
+    return next;
+  }
+}
+
+export const transcriptStore = new TranscriptStore(
+  process.env.TRANSCRIPT_DIR || path.join(process.cwd(), 'data', 'transcripts')
+);
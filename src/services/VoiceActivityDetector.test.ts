@@ -0,0 +1,82 @@
+// src/services/VoiceActivityDetector.test.ts
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { STT_SAMPLE_RATE } from './stt';
+import { DEFAULT_VAD_OPTIONS, VoiceActivityDetector, resolveVadOptions } from './VoiceActivityDetector';
+
+function pcm(seconds: number, sampleAt: (i: number) => number): Buffer {
+  const samples = Math.round(seconds * STT_SAMPLE_RATE);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) buffer.writeInt16LE(Math.round(sampleAt(i) * 32767), i * 2);
+  return buffer;
+}
+
+const tone = (seconds: number) => pcm(seconds, i => 0.3 * Math.sin((2 * Math.PI * 200 * i) / STT_SAMPLE_RATE));
+const silence = (seconds: number) => pcm(seconds, () => 0);
+const hiss = (seconds: number) => pcm(seconds, i => (i % 2 === 0 ? 0.3 : -0.3)); // Loud, but crosses zero every sample
+
+function createDetector() {
+  const events: string[] = [];
+  const detector = new VoiceActivityDetector(DEFAULT_VAD_OPTIONS, {
+    onSpeechStart: time => events.push(`start ${time.toFixed(2)}`),
+    onSpeechEnd: time => events.push(`end ${time.toFixed(2)}`),
+  });
+  return { detector, events };
+}
+
+describe('VoiceActivityDetector', () => {
+  it('reports where speech started and where the last voiced frame ended', () => {
+    const { detector, events } = createDetector();
+    detector.process(silence(0.6));
+    detector.process(tone(0.9));
+    assert.ok(detector.isSpeaking());
+    detector.process(silence(1));
+    assert.deepEqual(events, ['start 0.60', 'end 1.50']);
+    assert.ok(!detector.isSpeaking());
+  });
+
+  it('ignores clicks shorter than minSpeechMs and pauses shorter than minSilenceMs', () => {
+    const { detector, events } = createDetector();
+    detector.process(Buffer.concat([tone(0.06), silence(0.99)])); // Whole 30 ms frames, so times are exact
+    assert.deepEqual(events, []);
+
+    detector.process(Buffer.concat([tone(0.3), silence(0.3), tone(0.3)]));
+    assert.deepEqual(events, ['start 1.05']);
+    assert.ok(detector.isSpeaking());
+  });
+
+  it('does not take loud hiss for speech', () => {
+    const { detector, events } = createDetector();
+    detector.process(hiss(1));
+    assert.deepEqual(events, []);
+  });
+
+  it('gives the same result for chunks that split frames and samples', () => {
+    const audio = Buffer.concat([silence(0.3), tone(0.6), silence(0.9)]);
+    const whole = createDetector();
+    whole.detector.process(audio);
+    const chunked = createDetector();
+    for (let offset = 0; offset < audio.length; offset += 999) chunked.detector.process(audio.subarray(offset, offset + 999));
+    assert.deepEqual(chunked.events, whole.events);
+    assert.deepEqual(whole.events, ['start 0.30', 'end 0.90']);
+  });
+
+  it('starts the timeline over after reset', () => {
+    const { detector, events } = createDetector();
+    detector.process(Buffer.concat([silence(1.8), tone(0.3)]));
+    detector.reset();
+    assert.ok(!detector.isSpeaking());
+    detector.process(tone(0.3));
+    assert.deepEqual(events, ['start 1.80', 'start 0.00']);
+  });
+});
+
+describe('resolveVadOptions', () => {
+  it('keeps the defaults for missing or invalid overrides', () => {
+    assert.deepEqual(resolveVadOptions(undefined), DEFAULT_VAD_OPTIONS);
+    assert.deepEqual(
+      resolveVadOptions({ enabled: false, minSilenceMs: 300, energyThreshold: -1, minSpeechMs: 'long' }),
+      { ...DEFAULT_VAD_OPTIONS, enabled: false, minSilenceMs: 300 },
+    );
+  });
+});
@@ -0,0 +1,125 @@
+// src/services/VoiceActivityDetector.ts
+import { STT_SAMPLE_RATE } from './stt';
+
+export interface VadOptions {
+  enabled: boolean;
+  energyThreshold: number;     // Minimum frame RMS (0..1, full scale = 1) to count as speech
+  maxZeroCrossingRate: number; // Frames above this zero-crossing rate (0..1) are treated as noise/hiss
+  minSpeechMs: number;         // Consecutive voiced audio needed before speech is considered started
+  minSilenceMs: number;        // Consecutive unvoiced audio needed before speech is considered ended (a pause)
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  enabled: true,
+  energyThreshold: 0.01,
+  maxZeroCrossingRate: 0.35,
+  minSpeechMs: 90,
+  minSilenceMs: 700,
+};
+
+/**
+ * Merges client-provided VAD settings over the defaults, ignoring anything that is not
+ * a finite, non-negative number (or a boolean for `enabled`).
+ */
+export function resolveVadOptions(overrides: unknown): VadOptions {
+  const options = { ...DEFAULT_VAD_OPTIONS };
+  if (!overrides || typeof overrides !== 'object') return options;
+  const input = overrides as Record<string, unknown>;
+  if (typeof input.enabled === 'boolean') options.enabled = input.enabled;
+  (['energyThreshold', 'maxZeroCrossingRate', 'minSpeechMs', 'minSilenceMs'] as const).forEach(key => {
+    const value = input[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      options[key] = value;
+    }
+  });
+  return options;
+}
+
+interface VadCallbacks {
+  onSpeechStart: (time: number) => void; // Seconds since the stream started
+  onSpeechEnd: (time: number) => void;
+}
+
+/**
+ * Energy + zero-crossing voice activity detector over 16 kHz mono s16le PCM,
+ * evaluated in 30 ms frames with start/end hangover so short clicks and
+ * breaths between words do not toggle the state.
+ */
+export class VoiceActivityDetector {
+  private static readonly FRAME_SAMPLES = (STT_SAMPLE_RATE * 30) / 1000;
+  private static readonly FRAME_BYTES = VoiceActivityDetector.FRAME_SAMPLES * 2;
+
+  private readonly options: VadOptions;
+  private readonly callbacks: VadCallbacks;
+  private remainder: Buffer = Buffer.alloc(0);
+  private framesProcessed = 0;
+  private voicedRunMs = 0;
+  private unvoicedRunMs = 0;
+  private speaking = false;
+  private lastVoicedTime = -Infinity;
+
+  constructor(options: VadOptions, callbacks: VadCallbacks) {
+    this.options = options;
+    this.callbacks = callbacks;
+  }
+
+  public process(pcm: Buffer) {
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, pcm]) : pcm;
+    const frameBytes = VoiceActivityDetector.FRAME_BYTES;
+    let offset = 0;
+    for (; offset + frameBytes <= data.length; offset += frameBytes) {
+      this.processFrame(data.subarray(offset, offset + frameBytes));
+    }
+    this.remainder = Buffer.from(data.subarray(offset));
+  }
+
+  public isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  public reset() {
+    this.remainder = Buffer.alloc(0);
+    this.framesProcessed = 0;
+    this.voicedRunMs = 0;
+    this.unvoicedRunMs = 0;
+    this.speaking = false;
+    this.lastVoicedTime = -Infinity;
+  }
+
+  private processFrame(frame: Buffer) {
+    const samples = VoiceActivityDetector.FRAME_SAMPLES;
+    let sumSquares = 0;
+    let zeroCrossings = 0;
+    let previous = 0;
+    for (let i = 0; i < samples; i++) {
+      const sample = frame.readInt16LE(i * 2) / 32768;
+      sumSquares += sample * sample;
+      if (i > 0 && (sample >= 0) !== (previous >= 0)) zeroCrossings++;
+      previous = sample;
+    }
+    const rms = Math.sqrt(sumSquares / samples);
+    const zeroCrossingRate = zeroCrossings / (samples - 1);
+    const isVoiced = rms >= this.options.energyThreshold && zeroCrossingRate <= this.options.maxZeroCrossingRate;
+
+    this.framesProcessed++;
+    const frameEnd = (this.framesProcessed * samples) / STT_SAMPLE_RATE;
+    const frameMs = (samples * 1000) / STT_SAMPLE_RATE;
+
+    if (isVoiced) {
+      this.lastVoicedTime = frameEnd;
+      this.voicedRunMs += frameMs;
+      this.unvoicedRunMs = 0;
+      if (!this.speaking && this.voicedRunMs >= this.options.minSpeechMs) {
+        this.speaking = true;
+        this.callbacks.onSpeechStart(frameEnd - this.voicedRunMs / 1000);
+      }
+    } else {
+      this.unvoicedRunMs += frameMs;
+      this.voicedRunMs = 0;
+      if (this.speaking && this.unvoicedRunMs >= this.options.minSilenceMs) {
+        this.speaking = false;
+        this.callbacks.onSpeechEnd(this.lastVoicedTime);
+      }
+    }
+  }
+}
@@ -0,0 +1,111 @@
+// src/services/WhisperWorker.test.ts
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, afterEach, describe, it } from 'node:test';
+import { encodeWorkerRequest, getWhisperWorker, stopAllWhisperWorkers, WhisperWorker } from './WhisperWorker';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'whisper-worker-test-'));
+
+function writeExecutable(name: string, content: string): string {
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, content, { mode: 0o755 });
+  return file;
+}
+
+/** Speaks the worker protocol: answers every request with its decoded header and the sum of its PCM bytes. */
+const ECHO_WORKER = writeExecutable('echo-worker', `#!${process.execPath}
+process.stdout.write(JSON.stringify({ type: 'ready' }) + '\\n');
+let buffered = Buffer.alloc(0);
+process.stdin.on('data', (chunk) => {
+  buffered = Buffer.concat([buffered, chunk]);
+  while (buffered.length >= 4) {
+    const headerEnd = 4 + buffered.readUInt32LE(0);
+    if (buffered.length < headerEnd) return;
+    const header = JSON.parse(buffered.subarray(4, headerEnd).toString('utf-8'));
+    if (buffered.length < headerEnd + header.pcm_bytes) return;
+    const pcm = buffered.subarray(headerEnd, headerEnd + header.pcm_bytes);
+    buffered = buffered.subarray(headerEnd + header.pcm_bytes);
+    const reply = header.language === 'xx'
+      ? { id: header.id, error: 'Unsupported language' }
+      : { id: header.id, text: JSON.stringify({ ...header, pcm_sum: pcm.reduce((sum, byte) => sum + byte, 0) }), language: header.language };
+    process.stdout.write(JSON.stringify(reply) + '\\n');
+  }
+});
+`);
+
+/** Exits like a Python without the whisper package, and counts how often it was started. */
+const BROKEN_WORKER = writeExecutable('broken-worker', `#!/bin/sh
+echo started >> "$0.starts"
+echo "ModuleNotFoundError: No module named 'whisper'" >&2
+exit 1
+`);
+const brokenWorkerStarts = () => fs.readFileSync(`${BROKEN_WORKER}.starts`, 'utf-8').trim().split('\n').length;
+
+const originalExecutable = process.env.PYTHON_EXECUTABLE;
+
+afterEach(() => {
+  stopAllWhisperWorkers();
+  process.env.PYTHON_EXECUTABLE = originalExecutable;
+});
+
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+describe('encodeWorkerRequest', () => {
+  it('writes the header length, the JSON header and the PCM', () => {
+    const pcm = Buffer.from([1, 2, 3, 4]);
+    const frame = encodeWorkerRequest('7', pcm, { language: 'pt', prompt: 'Reunião de revisão' });
+    const headerLength = frame.readUInt32LE(0);
+    assert.deepEqual(JSON.parse(frame.subarray(4, 4 + headerLength).toString('utf-8')), {
+      id: '7',
+      language: 'pt',
+      initial_prompt: 'Reunião de revisão',
+      pcm_bytes: 4,
+    });
+    assert.deepEqual(frame.subarray(4 + headerLength), pcm);
+  });
+
+  it('sends the fallback language only along with a detection threshold', () => {
+    const frame = encodeWorkerRequest('8', Buffer.alloc(0), { language: 'auto', fallbackLanguage: 'en' });
+    const header = JSON.parse(frame.subarray(4).toString('utf-8'));
+    assert.equal(header.fallback_language, 'en');
+    assert.equal(typeof header.min_language_probability, 'number');
+    assert.equal(header.pcm_bytes, 0);
+  });
+});
+
+describe('WhisperWorker', () => {
+  it('matches answers to requests written back to back', async () => {
+    process.env.PYTHON_EXECUTABLE = ECHO_WORKER;
+    const worker = new WhisperWorker('base');
+    worker.start();
+    const [first, second] = await Promise.all([
+      worker.transcribe(Buffer.alloc(32000, 1), { language: 'pt' }),
+      worker.transcribe(Buffer.from([200, 100]), { language: 'en', prompt: 'Hello' }),
+    ]);
+    assert.deepEqual(JSON.parse(first.text), { id: '0', language: 'pt', pcm_bytes: 32000, pcm_sum: 32000 });
+    assert.deepEqual(JSON.parse(second.text), { id: '1', language: 'en', initial_prompt: 'Hello', pcm_bytes: 2, pcm_sum: 300 });
+    assert.equal(second.language, 'en');
+
+    await assert.rejects(worker.transcribe(Buffer.alloc(2), { language: 'xx' }), /Whisper worker error: Unsupported language/);
+    worker.stop();
+  });
+
+  it('gives up on a worker that exits before it is ready and retries only after a cooldown', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    process.env.PYTHON_EXECUTABLE = BROKEN_WORKER;
+    const worker = getWhisperWorker('broken');
+    await assert.rejects(worker.transcribe(Buffer.alloc(2), { language: 'en' }), /Whisper worker exited \(code 1/);
+
+    // Every later window fails right away, without starting Python again
+    assert.equal(getWhisperWorker('broken'), worker);
+    await assert.rejects(worker.transcribe(Buffer.alloc(2), { language: 'en' }), /Whisper model 'broken' is unavailable: its worker exited before loading its model/);
+    await assert.rejects(worker.transcribe(Buffer.alloc(2), { language: 'en' }), /is unavailable/);
+    assert.equal(brokenWorkerStarts(), 1);
+
+    t.mock.timers.tick(5 * 60000);
+    await assert.rejects(worker.transcribe(Buffer.alloc(2), { language: 'en' }), /Whisper worker exited \(code 1/);
+    assert.equal(brokenWorkerStarts(), 2);
+  });
+});
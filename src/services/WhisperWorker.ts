@@ -0,0 +1,302 @@
+// src/services/WhisperWorker.ts
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import readline from 'readline';
+import path from 'path';
+import { z } from 'zod';
+
+const SCRIPT_PATH = path.join(process.cwd(), 'src', 'scripts', 'python', 'run_whisper.py');
+// With language 'auto', detections less certain than this fall back to the request's fallbackLanguage
+const MIN_LANGUAGE_PROBABILITY = parseFloat(process.env.LANGUAGE_DETECTION_MIN_PROBABILITY || '0.5');
+
+export interface WhisperTranscribeOptions {
+  language: string;
+  prompt?: string; // Passed to Whisper as initial_prompt
+  fallbackLanguage?: string; // Only with language 'auto': used when detection is unsure
+}
+
+export interface WhisperWorkerWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface WhisperWorkerSegment {
+  start: number; // Seconds, relative to the start of the PCM sent in the request
+  end: number;
+  text: string;
+  words: WhisperWorkerWord[];
+}
+
+export interface WhisperWorkerResult {
+  text: string;
+  language?: string; // Language the window was transcribed in
+  languageProbability?: number; // Only when the language was detected ('auto')
+  segments: WhisperWorkerSegment[];
+}
+
+const WorkerWordSchema = z.object({ word: z.string(), start: z.number(), end: z.number() });
+const WorkerSegmentSchema = z.object({ start: z.number(), end: z.number(), text: z.string(), words: z.array(WorkerWordSchema).default([]) });
+
+/** The JSON lines `run_whisper.py --worker` prints: 'ready' once the model is loaded, then one answer per request. */
+const WorkerMessageSchema = z.union([
+  z.object({ type: z.literal('ready') }),
+  z.object({ id: z.string().nullable(), error: z.string() }),
+  z.object({
+    id: z.string(),
+    text: z.string().default(''),
+    language: z.string().nullish(),
+    language_probability: z.number().optional(),
+    segments: z.array(WorkerSegmentSchema).default([]),
+  }),
+]);
+
+/**
+ * One request on the worker's stdin: a uint32 little-endian header length, the UTF-8 JSON
+ * header (id, options and `pcm_bytes`), then the PCM itself.
+ */
+export function encodeWorkerRequest(id: string, pcm: Buffer, options: WhisperTranscribeOptions): Buffer {
+  const header = Buffer.from(JSON.stringify({
+    id,
+    language: options.language,
+    ...(options.prompt ? { initial_prompt: options.prompt } : {}),
+    ...(options.fallbackLanguage ? { fallback_language: options.fallbackLanguage, min_language_probability: MIN_LANGUAGE_PROBABILITY } : {}),
+    pcm_bytes: pcm.length,
+  }), 'utf-8');
+  const lengthPrefix = Buffer.alloc(4);
+  lengthPrefix.writeUInt32LE(header.length, 0);
+  return Buffer.concat([lengthPrefix, header, pcm]);
+}
+
+interface PendingRequest {
+  resolve: (result: WhisperWorkerResult) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout | null;
+  frame: Buffer;
+}
+
+/**
+ * Supervises a long-lived `run_whisper.py --worker` process that keeps the Whisper
+ * model loaded between requests. PCM windows are written to the worker's stdin as
+ * length-prefixed frames and the JSON lines it prints are matched back to their
+ * requests by id. If the worker crashes it is restarted with an exponential backoff
+ * and every in-flight request is rejected. A worker that dies before it is ready (bad
+ * model, missing Python package) or keeps crashing is marked as failed instead: requests
+ * are rejected right away until FAILED_RETRY_MS have passed, then the next one starts it again.
+ */
+export class WhisperWorker {
+  private static readonly REQUEST_TIMEOUT_MS = 30000;
+  private static readonly MIN_RESTART_DELAY_MS = 1000;
+  private static readonly MAX_RESTART_DELAY_MS = 30000;
+  private static readonly MAX_RESTARTS = 5; // In a row; a worker that stays up for STABLE_RUN_MS resets the count
+  private static readonly STABLE_RUN_MS = 60000;
+  private static readonly FAILED_RETRY_MS = 5 * 60000;
+
+  private readonly model: string;
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private isReady = false;
+  private isStopped = false;
+  private restartDelayMs = WhisperWorker.MIN_RESTART_DELAY_MS;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private restartCount = 0;
+  private failure: { reason: string; at: number } | null = null; // Set once the worker is given up on
+  private nextRequestId = 0;
+  private pending = new Map<string, PendingRequest>();
+  private queuedRequestIds: string[] = []; // Written once the worker reports it is ready
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  public start() {
+    if (this.process) return;
+    this.isStopped = false;
+    const pythonExecutable = process.env.PYTHON_EXECUTABLE || 'python';
+    const args = [SCRIPT_PATH, '--worker', this.model];
+    console.log(`[WhisperWorker-${this.model}] Spawning worker: ${pythonExecutable} ${args.join(' ')}`);
+
+    const child = spawn(pythonExecutable, args);
+    const startedAt = Date.now();
+    this.process = child;
+    this.isReady = false;
+
+    readline.createInterface({ input: child.stdout }).on('line', (line) => this.handleLine(line));
+
+    child.stderr.on('data', (data: Buffer) => {
+      const message = data.toString().trim();
+      if (message && !message.includes("UserWarning: 1Torch was not compiled with flash attention")) {
+        console.warn(`[WhisperWorker-${this.model}] stderr: ${message}`);
+      }
+    });
+
+    child.stdin.on('error', (err) => {
+      console.error(`[WhisperWorker-${this.model}] stdin error:`, err.message);
+    });
+
+    child.on('error', (err) => {
+      console.error(`[WhisperWorker-${this.model}] Error in process:`, err);
+    });
+
+    child.on('close', (code, signal) => {
+      if (this.process !== child) return;
+      const wasReady = this.isReady;
+      this.process = null;
+      this.isReady = false;
+      this.rejectAll(new Error(`Whisper worker exited (code ${code}, signal ${signal})`));
+      if (this.isStopped) {
+        console.log(`[WhisperWorker-${this.model}] Worker stopped.`);
+        return;
+      }
+      if (Date.now() - startedAt >= WhisperWorker.STABLE_RUN_MS) this.restartCount = 0;
+      if (!wasReady || this.restartCount >= WhisperWorker.MAX_RESTARTS) {
+        const reason = wasReady ? `crashed ${this.restartCount + 1} times in a row` : 'exited before loading its model';
+        console.error(`[WhisperWorker-${this.model}] Worker ${reason} (code ${code}, signal ${signal}). Not restarting it for ${WhisperWorker.FAILED_RETRY_MS / 1000}s.`);
+        this.failure = { reason, at: Date.now() };
+        return;
+      }
+      this.restartCount++;
+      console.warn(`[WhisperWorker-${this.model}] Worker exited unexpectedly (code ${code}, signal ${signal}). Restarting in ${this.restartDelayMs}ms.`);
+      this.restartTimer = setTimeout(() => {
+        this.restartTimer = null;
+        this.start();
+      }, this.restartDelayMs);
+      this.restartDelayMs = Math.min(this.restartDelayMs * 2, WhisperWorker.MAX_RESTART_DELAY_MS);
+    });
+  }
+
+  public transcribe(pcm: Buffer, options: WhisperTranscribeOptions): Promise<WhisperWorkerResult> {
+    if (this.isStopped) {
+      return Promise.reject(new Error('Whisper worker is stopped.'));
+    }
+    if (this.failure) {
+      if (Date.now() - this.failure.at < WhisperWorker.FAILED_RETRY_MS) {
+        return Promise.reject(new Error(`Whisper model '${this.model}' is unavailable: its worker ${this.failure.reason}.`));
+      }
+      console.log(`[WhisperWorker-${this.model}] Retrying the failed worker.`);
+      this.failure = null;
+      this.restartCount = 0;
+      this.restartDelayMs = WhisperWorker.MIN_RESTART_DELAY_MS;
+      this.start();
+    }
+    if (!this.process) {
+      return Promise.reject(new Error('Whisper worker is restarting.'));
+    }
+
+    const id = (this.nextRequestId++).toString(36);
+    const frame = encodeWorkerRequest(id, pcm, options);
+
+    return new Promise<WhisperWorkerResult>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, timeout: null, frame });
+      if (this.isReady) {
+        this.writeRequest(id);
+      } else {
+        this.queuedRequestIds.push(id);
+      }
+    });
+  }
+
+  public stop() {
+    this.isStopped = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    this.rejectAll(new Error('Whisper worker is stopped.'));
+    const child = this.process;
+    if (child) {
+      console.log(`[WhisperWorker-${this.model}] Stopping worker.`);
+      child.stdin.end(); // The worker exits on its own once stdin closes
+      setTimeout(() => {
+        if (child.exitCode === null && !child.killed) {
+          console.warn(`[WhisperWorker-${this.model}] Worker did not exit gracefully, sending SIGKILL.`);
+          child.kill('SIGKILL');
+        }
+      }, 2000);
+    }
+  }
+
+  private writeRequest(id: string) {
+    const request = this.pending.get(id);
+    if (!request || !this.process) return;
+    request.timeout = setTimeout(() => {
+      console.warn(`[WhisperWorker-${this.model}] Request ${id} timed out after ${WhisperWorker.REQUEST_TIMEOUT_MS}ms. Killing worker.`);
+      this.settle(id, new Error(`Whisper worker request timed out after ${WhisperWorker.REQUEST_TIMEOUT_MS}ms`));
+      this.process?.kill('SIGKILL'); // A hung worker is restarted by the 'close' handler
+    }, WhisperWorker.REQUEST_TIMEOUT_MS);
+    this.process.stdin.write(request.frame);
+  }
+
+  private handleLine(line: string) {
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch (e) {
+      console.warn(`[WhisperWorker-${this.model}] Ignoring non-JSON stdout line: ${line}`);
+      return;
+    }
+    const parsed = WorkerMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      console.warn(`[WhisperWorker-${this.model}] Ignoring unexpected stdout line: ${line.substring(0, 200)}`);
+      return;
+    }
+    const message = parsed.data;
+
+    if ('type' in message) {
+      console.log(`[WhisperWorker-${this.model}] Worker ready.`);
+      this.isReady = true;
+      this.restartDelayMs = WhisperWorker.MIN_RESTART_DELAY_MS;
+      const queued = this.queuedRequestIds;
+      this.queuedRequestIds = [];
+      queued.forEach(id => this.writeRequest(id));
+      return;
+    }
+
+    if (message.id === null || !this.pending.has(message.id)) {
+      return; // Late answer to a request that already timed out
+    }
+    if ('error' in message) {
+      this.settle(message.id, new Error(`Whisper worker error: ${message.error}`));
+    } else {
+      this.settle(message.id, null, {
+        text: message.text,
+        ...(message.language ? { language: message.language } : {}),
+        ...(message.language_probability !== undefined ? { languageProbability: message.language_probability } : {}),
+        segments: message.segments,
+      });
+    }
+  }
+
+  private settle(id: string, error: Error | null, result: WhisperWorkerResult = { text: '', segments: [] }) {
+    const request = this.pending.get(id);
+    if (!request) return;
+    this.pending.delete(id);
+    if (request.timeout) clearTimeout(request.timeout);
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(result);
+    }
+  }
+
+  private rejectAll(error: Error) {
+    Array.from(this.pending.keys()).forEach(id => this.settle(id, error));
+    this.queuedRequestIds = [];
+  }
+}
+
+// One worker per Whisper model, shared by every transcriber in this process.
+const workers = new Map<string, WhisperWorker>();
+
+export function getWhisperWorker(model: string): WhisperWorker {
+  let worker = workers.get(model);
+  if (!worker) {
+    worker = new WhisperWorker(model);
+    workers.set(model, worker);
+    worker.start();
+  }
+  return worker;
+}
+
+export function stopAllWhisperWorkers() {
+  workers.forEach(worker => worker.stop());
+  workers.clear();
+}
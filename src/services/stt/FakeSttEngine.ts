@@ -0,0 +1,24 @@
+// src/services/stt/FakeSttEngine.ts
+import { STT_BYTES_PER_SECOND, type SttEngine, type SttSegment } from './SttEngine';
+
+/**
+ * Deterministic test double: every call returns the next entry of a fixed script as a
+ * single segment spanning the whole window, and repeats the last entry once the script
+ * runs out. Useful to exercise the windowing and translation pipeline without Python.
+ */
+export class FakeSttEngine implements SttEngine {
+  public readonly name = 'fake';
+  private readonly script: string[];
+  private callCount = 0;
+
+  constructor(script: string[]) {
+    this.script = script;
+  }
+
+  public async transcribe(pcm: Buffer): Promise<SttSegment[]> {
+    if (this.script.length === 0) return [];
+    const text = this.script[Math.min(this.callCount, this.script.length - 1)];
+    this.callCount++;
+    return text.trim() ? [{ text: text.trim(), start: 0, end: pcm.length / STT_BYTES_PER_SECOND }] : [];
+  }
+}
@@ -0,0 +1,36 @@
+// src/services/stt/SttEngine.ts
+
+/** Sample rate of the PCM handed to every engine: 16 kHz, mono, s16le. */
+export const STT_SAMPLE_RATE = 16000;
+export const STT_BYTES_PER_SECOND = STT_SAMPLE_RATE * 2;
+
+export interface SttWord {
+  text: string;
+  start: number; // Seconds, relative to the start of the PCM passed to transcribe()
+  end: number;
+}
+
+export interface SttSegment {
+  text: string;
+  start: number; // Seconds, relative to the start of the PCM passed to transcribe()
+  end: number;
+  words?: SttWord[]; // Omitted by engines without word-level timestamps
+  language?: string; // Language the segment was recognized in, when the engine reports it
+  languageProbability?: number; // Detection confidence (0-1), only when the language was auto-detected
+}
+
+export interface SttTranscribeOptions {
+  language: string;
+  prompt?: string; // Text the audio is expected to follow (Whisper's initial_prompt); engines may ignore it
+  fallbackLanguage?: string; // With language 'auto': the language to assume when detection is unsure
+}
+
+/**
+ * A speech-to-text backend. RealtimeTranscriber only owns the windowing logic and
+ * hands each PCM window (16 kHz mono s16le) to whichever engine it was given.
+ */
+export interface SttEngine {
+  readonly name: string;
+  transcribe(pcm: Buffer, options: SttTranscribeOptions): Promise<SttSegment[]>;
+  dispose?(): void;
+}
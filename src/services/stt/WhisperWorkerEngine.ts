@@ -0,0 +1,44 @@
+// src/services/stt/WhisperWorkerEngine.ts
+import { getWhisperWorker } from '../WhisperWorker';
+import { whisperLatency } from '../Metrics';
+import { STT_BYTES_PER_SECOND, type SttEngine, type SttSegment, type SttTranscribeOptions } from './SttEngine';
+
+/**
+ * Whisper via the shared `run_whisper.py --worker` process for the given model.
+ * The worker is shared across sessions, so disposing this engine leaves it running.
+ */
+export class WhisperWorkerEngine implements SttEngine {
+  public readonly name = 'whisper';
+  private readonly model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  public async transcribe(pcm: Buffer, options: SttTranscribeOptions): Promise<SttSegment[]> {
+    const endTimer = whisperLatency.startTimer({ model: this.model });
+    let result;
+    try {
+      result = await getWhisperWorker(this.model).transcribe(pcm, options);
+      endTimer({ outcome: 'success' });
+    } catch (error) {
+      endTimer({ outcome: 'error' });
+      throw error;
+    }
+    const language = {
+      ...(result.language ? { language: result.language } : {}),
+      ...(result.languageProbability !== undefined ? { languageProbability: result.languageProbability } : {}),
+    };
+    if (result.segments.length === 0) {
+      const text = result.text.trim();
+      return text ? [{ text, start: 0, end: pcm.length / STT_BYTES_PER_SECOND, ...language }] : [];
+    }
+    return result.segments.map(segment => ({
+      text: segment.text,
+      start: segment.start,
+      end: segment.end,
+      words: segment.words.map(word => ({ text: word.word, start: word.start, end: word.end })),
+      ...language,
+    }));
+  }
+}
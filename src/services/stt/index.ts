@@ -0,0 +1,28 @@
+// src/services/stt/index.ts
+import { FakeSttEngine } from './FakeSttEngine';
+import { WhisperWorkerEngine } from './WhisperWorkerEngine';
+import type { SttEngine } from './SttEngine';
+
+export * from './SttEngine';
+export { FakeSttEngine } from './FakeSttEngine';
+export { WhisperWorkerEngine } from './WhisperWorkerEngine';
+
+export type SttEngineName = 'whisper' | 'fake';
+
+export interface SttEngineConfig {
+  engine?: SttEngineName; // Defaults to STT_ENGINE, then 'whisper'
+  model: string;
+  script?: string[]; // Only used by the fake engine; defaults to FAKE_STT_SCRIPT split on '|'
+}
+
+export function createSttEngine(config: SttEngineConfig): SttEngine {
+  const engine = config.engine || (process.env.STT_ENGINE as SttEngineName | undefined) || 'whisper';
+  switch (engine) {
+    case 'fake':
+      return new FakeSttEngine(config.script || (process.env.FAKE_STT_SCRIPT || '').split('|').filter(Boolean));
+    case 'whisper':
+      return new WhisperWorkerEngine(config.model);
+    default:
+      throw new Error(`Unknown STT engine '${engine}'. Expected 'whisper' or 'fake'.`);
+  }
+}
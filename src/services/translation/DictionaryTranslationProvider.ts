@@ -0,0 +1,34 @@
+// src/services/translation/DictionaryTranslationProvider.ts
+import type { TranslationProvider, TranslationRequest } from './TranslationProvider';
+
+/** Terms per language pair, keyed '<source>:<target>' (e.g. 'pt:en'), each mapping a lower-case source term to its translation. */
+export type TranslationDictionary = Record<string, Record<string, string>>;
+
+/**
+ * Deterministic offline provider for tests and demos. A segment that matches a dictionary
+ * entry as a whole is replaced by it; otherwise each word found in the dictionary is
+ * replaced and every other word is kept as is. With an empty dictionary it echoes the text.
+ */
+export class DictionaryTranslationProvider implements TranslationProvider {
+  public readonly name = 'dictionary';
+  private readonly dictionary: TranslationDictionary;
+
+  constructor(dictionary: TranslationDictionary = {}) {
+    this.dictionary = dictionary;
+  }
+
+  public async translate(request: TranslationRequest): Promise<string> {
+    const terms = this.dictionary[`${request.sourceLanguage}:${request.targetLanguage}`];
+    if (!terms) return request.text;
+
+    const whole = terms[request.text.trim().toLowerCase()];
+    if (whole !== undefined) return whole;
+
+    return request.text.replace(/[\p{L}\p{N}'-]+/gu, word => {
+      const translated = terms[word.toLowerCase()];
+      if (translated === undefined) return word;
+      // Keep a leading capital, e.g. at the start of a sentence
+      return word[0] !== word[0].toLowerCase() ? translated.charAt(0).toUpperCase() + translated.slice(1) : translated;
+    });
+  }
+}
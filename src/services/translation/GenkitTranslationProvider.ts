@@ -0,0 +1,22 @@
+// src/services/translation/GenkitTranslationProvider.ts
+import type { TranslationProvider, TranslationRequest } from './TranslationProvider';
+
+/**
+ * Gemini through the `improveTranslationAccuracy` Genkit flow. The flow is imported on
+ * first use, so servers configured for an offline provider never initialize Genkit.
+ */
+export class GenkitTranslationProvider implements TranslationProvider {
+  public readonly name = 'genkit';
+
+  public async translate(request: TranslationRequest): Promise<string> {
+    const { improveTranslationAccuracy } = await import('../../ai/flows/improve-translation-accuracy');
+    const output = await improveTranslationAccuracy({
+      text: request.text,
+      sourceLanguage: request.sourceLanguage,
+      targetLanguage: request.targetLanguage,
+      context: request.context && request.context.length > 0 ? request.context : undefined,
+      glossary: request.glossary && (request.glossary.terms.length > 0 || request.glossary.doNotTranslate.length > 0) ? request.glossary : undefined,
+    });
+    return output.translatedText;
+  }
+}
@@ -0,0 +1,49 @@
+// src/services/translation/LibreTranslateProvider.ts
+import type { TranslationProvider, TranslationRequest } from './TranslationProvider';
+
+export interface LibreTranslateOptions {
+  url: string;      // Base URL of the server, e.g. http://localhost:5000
+  apiKey?: string;  // Only needed when the server was started with --api-keys
+  timeoutMs: number;
+}
+
+/**
+ * A self-hosted LibreTranslate (Argos Translate) server: fully offline once its language
+ * models are installed. It translates sentence by sentence, so the context pairs are unused.
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  public readonly name = 'libretranslate';
+  private readonly options: LibreTranslateOptions;
+
+  constructor(options: LibreTranslateOptions) {
+    this.options = options;
+  }
+
+  public async translate(request: TranslationRequest): Promise<string> {
+    const response = await fetch(`${this.options.url.replace(/\/+$/, '')}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q: request.text,
+        source: toLibreTranslateLanguage(request.sourceLanguage),
+        target: toLibreTranslateLanguage(request.targetLanguage),
+        format: 'text',
+        ...(this.options.apiKey ? { api_key: this.options.apiKey } : {}),
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(`LibreTranslate responded ${response.status}: ${body?.error || response.statusText}`);
+    }
+    if (typeof body?.translatedText !== 'string') {
+      throw new Error('LibreTranslate response has no translatedText.');
+    }
+    return body.translatedText;
+  }
+}
+
+/** LibreTranslate knows base language codes only ('pt', not 'pt-BR'). */
+function toLibreTranslateLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase();
+}
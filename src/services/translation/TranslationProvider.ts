@@ -0,0 +1,25 @@
+// src/services/translation/TranslationProvider.ts
+import type { GlossaryEntries } from '../Glossary';
+
+export interface TranslationContextEntry {
+  source: string; // A previously translated sentence, in the source language
+  target: string; // The translation that was produced for it
+}
+
+export interface TranslationRequest {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  context?: TranslationContextEntry[]; // Recent pairs of the same stream, oldest first; for coherence only
+  glossary?: GlossaryEntries; // Room glossary entries that occur in `text`; checked again after translation
+}
+
+/**
+ * A translation backend. The server only decides what to translate and into which
+ * languages; each provider turns one segment into one language. Providers that cannot
+ * use the context pairs or the glossary simply ignore them.
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  translate(request: TranslationRequest): Promise<string>;
+}
@@ -0,0 +1,61 @@
+// src/services/translation/index.ts
+import fs from 'fs';
+import { TranslationProviderNameSchema, type TranslationProviderName } from '../../lib/protocol';
+import { DictionaryTranslationProvider, type TranslationDictionary } from './DictionaryTranslationProvider';
+import { GenkitTranslationProvider } from './GenkitTranslationProvider';
+import { LibreTranslateProvider } from './LibreTranslateProvider';
+import type { TranslationProvider } from './TranslationProvider';
+
+export * from './TranslationProvider';
+export { DictionaryTranslationProvider, type TranslationDictionary } from './DictionaryTranslationProvider';
+export { GenkitTranslationProvider } from './GenkitTranslationProvider';
+export { LibreTranslateProvider } from './LibreTranslateProvider';
+export type { TranslationProviderName };
+
+function loadDictionary(filePath: string | undefined): TranslationDictionary {
+  if (!filePath) return {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error: any) {
+    console.warn(`[Translation] Could not load TRANSLATION_DICTIONARY_FILE '${filePath}': ${error.message}. Echoing text instead.`);
+    return {};
+  }
+}
+
+export function createTranslationProvider(name: TranslationProviderName): TranslationProvider {
+  switch (name) {
+    case 'genkit':
+      return new GenkitTranslationProvider();
+    case 'libretranslate':
+      return new LibreTranslateProvider({
+        url: process.env.LIBRETRANSLATE_URL || 'http://localhost:5000',
+        apiKey: process.env.LIBRETRANSLATE_API_KEY || undefined,
+        timeoutMs: parseInt(process.env.TRANSLATION_TIMEOUT_MS || '15000', 10),
+      });
+    case 'dictionary':
+      return new DictionaryTranslationProvider(loadDictionary(process.env.TRANSLATION_DICTIONARY_FILE));
+  }
+}
+
+/** The provider used when a session does not pick one: TRANSLATION_PROVIDER, then 'genkit'. */
+export function getDefaultTranslationProviderName(): TranslationProviderName {
+  const configured = process.env.TRANSLATION_PROVIDER || 'genkit';
+  const parsed = TranslationProviderNameSchema.safeParse(configured);
+  if (!parsed.success) {
+    throw new Error(`Unknown translation provider '${configured}'. Expected one of: ${TranslationProviderNameSchema.options.join(', ')}.`);
+  }
+  return parsed.data;
+}
+
+// Providers are stateless, so sessions that pick the same one share an instance.
+const providers = new Map<TranslationProviderName, TranslationProvider>();
+
+export function getTranslationProvider(name: TranslationProviderName = getDefaultTranslationProviderName()): TranslationProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createTranslationProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
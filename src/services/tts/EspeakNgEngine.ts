@@ -0,0 +1,30 @@
+// src/services/tts/EspeakNgEngine.ts
+import { runProcessToBuffer, type TtsEngine, type TtsSynthesizeOptions } from './TtsEngine';
+
+/**
+ * espeak-ng: robotic but tiny and available for almost every language. The text is
+ * passed on stdin and the WAV is read from stdout.
+ */
+export class EspeakNgEngine implements TtsEngine {
+  public readonly name = 'espeak-ng';
+  private static readonly TIMEOUT_MS = 15000;
+  // Voice variants (`<language>+<variant>`) handed out to a room's second, third, ... speaker
+  private static readonly SPEAKER_VARIANTS = ['f2', 'm3', 'f4', 'm5', 'f1', 'm7'];
+
+  public readonly executable: string;
+
+  constructor(executable = process.env.ESPEAK_NG_EXECUTABLE || 'espeak-ng') {
+    this.executable = executable;
+  }
+
+  public synthesize(text: string, options: TtsSynthesizeOptions): Promise<Buffer> {
+    const args = ['-v', options.voice || options.language, '--stdin', '--stdout'];
+    return runProcessToBuffer(this.executable, args, text, EspeakNgEngine.TIMEOUT_MS);
+  }
+
+  public voiceForSpeaker(language: string, speakerIndex: number): string | undefined {
+    if (speakerIndex <= 0) return undefined;
+    const variants = EspeakNgEngine.SPEAKER_VARIANTS;
+    return `${language}+${variants[(speakerIndex - 1) % variants.length]}`;
+  }
+}
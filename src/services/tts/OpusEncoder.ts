@@ -0,0 +1,21 @@
+// src/services/tts/OpusEncoder.ts
+import ffmpegPath from 'ffmpeg-static';
+import { runProcessToBuffer } from './TtsEngine';
+
+const ENCODE_TIMEOUT_MS = 15000;
+
+/** Encodes a WAV file as Opus in a WebM container, which every browser can play from a Blob. */
+export function encodeWavToOpusWebm(wav: Buffer): Promise<Buffer> {
+  if (!ffmpegPath) {
+    return Promise.reject(new Error('ffmpeg-static path is null. Cannot encode synthesized speech.'));
+  }
+  const ffmpegArgs = [
+    '-i', 'pipe:0',       // WAV from stdin
+    '-c:a', 'libopus',
+    '-b:a', '32k',        // Plenty for speech
+    '-application', 'voip',
+    '-f', 'webm',
+    'pipe:1'
+  ];
+  return runProcessToBuffer(ffmpegPath, ffmpegArgs, wav, ENCODE_TIMEOUT_MS);
+}
@@ -0,0 +1,39 @@
+// src/services/tts/PiperEngine.ts
+import { runProcessToBuffer, type TtsEngine, type TtsSynthesizeOptions } from './TtsEngine';
+
+/**
+ * Piper neural TTS. Each language needs its own voice model (.onnx), configured as a
+ * JSON map in PIPER_VOICES, e.g. {"en":"/voices/en_US-lessac-medium.onnx"}. Extra models
+ * for the other speakers of a room go in PIPER_SPEAKER_VOICES, e.g.
+ * {"en":["/voices/en_US-amy-medium.onnx","/voices/en_GB-alan-medium.onnx"]}.
+ */
+export class PiperEngine implements TtsEngine {
+  public readonly name = 'piper';
+  private static readonly TIMEOUT_MS = 30000;
+
+  public readonly executable: string;
+  private readonly voices: Record<string, string>;
+  private readonly speakerVoices: Record<string, string[]>;
+
+  constructor(voices: Record<string, string>, speakerVoices: Record<string, string[]> = {}, executable = process.env.PIPER_EXECUTABLE || 'piper') {
+    this.voices = voices;
+    this.speakerVoices = speakerVoices;
+    this.executable = executable;
+  }
+
+  public synthesize(text: string, options: TtsSynthesizeOptions): Promise<Buffer> {
+    const model = options.voice || this.voices[options.language];
+    if (!model) {
+      return Promise.reject(new Error(`No Piper voice configured for language '${options.language}'.`));
+    }
+    // Piper reads one utterance per line, so newlines inside a segment are flattened
+    const args = ['--model', model, '--output_file', '-'];
+    return runProcessToBuffer(this.executable, args, text.replace(/\s*\n\s*/g, ' ') + '\n', PiperEngine.TIMEOUT_MS);
+  }
+
+  public voiceForSpeaker(language: string, speakerIndex: number): string | undefined {
+    const models = this.speakerVoices[language];
+    if (speakerIndex <= 0 || !Array.isArray(models) || models.length === 0) return undefined;
+    return models[(speakerIndex - 1) % models.length];
+  }
+}
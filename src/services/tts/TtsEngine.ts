@@ -0,0 +1,89 @@
+// src/services/tts/TtsEngine.ts
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+
+export interface TtsSynthesizeOptions {
+  language: string; // Language of the text, e.g. 'en'
+  voice?: string;   // Engine-specific voice override (espeak-ng voice name, Piper model path)
+}
+
+/**
+ * Local text-to-speech backend. Implementations return a complete WAV file;
+ * encoding for the wire happens separately (see OpusEncoder).
+ */
+export interface TtsEngine {
+  readonly name: string;
+  readonly executable: string; // Command run for every synthesis; checked once at startup
+  synthesize(text: string, options: TtsSynthesizeOptions): Promise<Buffer>;
+  /**
+   * Voice for the Nth speaker of a room (0-based), so listeners can tell speakers apart.
+   * Undefined means the language's default voice; speaker 0 always gets it.
+   */
+  voiceForSpeaker?(language: string, speakerIndex: number): string | undefined;
+  dispose?(): void;
+}
+
+/** Resolves a command the way spawn() would (a path, or a name looked up on PATH); null when it is not executable. */
+export function findExecutable(command: string): string | null {
+  const candidates = command.includes(path.sep)
+    ? [command]
+    : (process.env.PATH || '').split(path.delimiter).filter(Boolean).map(directory => path.join(directory, command));
+  for (const candidate of candidates) {
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null;
+}
+
+/**
+ * Runs a command to completion, optionally writing `input` to its stdin, and resolves
+ * with everything it wrote to stdout. Rejects on spawn errors, non-zero exit codes or
+ * when it runs longer than `timeoutMs`.
+ */
+export function runProcessToBuffer(command: string, args: string[], input: Buffer | string | null, timeoutMs: number): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    const child = spawn(command, args);
+    const stdoutChunks: Buffer[] = [];
+    let stderr = '';
+    let settled = false;
+
+    const finish = (error: Error | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) {
+        reject(error);
+      } else {
+        resolve(Buffer.concat(stdoutChunks));
+      }
+    };
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      finish(new Error(`${command} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+    child.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+    child.stdin.on('error', () => { /* Reported through 'close' / 'error' */ });
+    child.on('error', (err) => finish(err));
+    child.on('close', (code) => {
+      if (code === 0) {
+        finish(null);
+      } else {
+        finish(new Error(`${command} exited with code ${code}: ${stderr.trim().substring(0, 300)}`));
+      }
+    });
+
+    if (input !== null) {
+      child.stdin.end(input);
+    } else {
+      child.stdin.end();
+    }
+  });
+}
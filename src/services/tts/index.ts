@@ -0,0 +1,60 @@
+// src/services/tts/index.ts
+import { EspeakNgEngine } from './EspeakNgEngine';
+import { PiperEngine } from './PiperEngine';
+import { findExecutable, type TtsEngine } from './TtsEngine';
+
+export * from './TtsEngine';
+export { EspeakNgEngine } from './EspeakNgEngine';
+export { PiperEngine } from './PiperEngine';
+export { encodeWavToOpusWebm } from './OpusEncoder';
+
+export type TtsEngineName = 'espeak-ng' | 'piper' | 'none';
+
+export interface TtsEngineConfig {
+  engine?: TtsEngineName; // Defaults to TTS_ENGINE, then 'espeak-ng' when it is installed
+}
+
+/** Reads a JSON object from an environment variable; a missing or malformed value counts as empty. */
+function parseJsonMapEnv<T>(variable: string): Record<string, T> {
+  const raw = process.env[variable];
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    console.warn(`[TTS] ${variable} is not valid JSON. Ignoring it.`);
+    return {};
+  }
+}
+
+function instantiateTtsEngine(engine: TtsEngineName): TtsEngine | null {
+  switch (engine) {
+    case 'none':
+      return null;
+    case 'espeak-ng':
+      return new EspeakNgEngine();
+    case 'piper':
+      return new PiperEngine(parseJsonMapEnv<string>('PIPER_VOICES'), parseJsonMapEnv<string[]>('PIPER_SPEAKER_VOICES'));
+    default:
+      throw new Error(`Unknown TTS engine '${engine}'. Expected 'espeak-ng', 'piper' or 'none'.`);
+  }
+}
+
+/** The command an engine runs, for the readiness check; null for 'none'. */
+export function getTtsEngineExecutable(engine: TtsEngineName): string | null {
+  return instantiateTtsEngine(engine)?.executable ?? null;
+}
+
+/**
+ * Returns null when server-side synthesis is disabled ('none') or the engine's binary is
+ * not installed; listeners then fall back to browser speech.
+ */
+export function createTtsEngine(config: TtsEngineConfig = {}): TtsEngine | null {
+  const configured = config.engine || (process.env.TTS_ENGINE as TtsEngineName | undefined);
+  const engine = instantiateTtsEngine(configured || 'espeak-ng');
+  if (engine && !findExecutable(engine.executable)) {
+    console.warn(`[TTS] ${engine.name}: '${engine.executable}' not found${configured ? '' : ' (TTS_ENGINE is not set)'}. Server-side synthesis is off; listeners use browser speech.`);
+    return null;
+  }
+  return engine;
+}
@@ -2,208 +2,942 @@
 // src/websocket-server.ts
 'use server';
 import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomBytes } from 'crypto';
 import { config as dotenvConfig } from 'dotenv';
-import { improveTranslationAccuracy, type ImproveTranslationAccuracyInput } from './ai/flows/improve-translation-accuracy';
 import { RealtimeTranscriber } from './services/RealtimeTranscriber'; 
+import { stopAllWhisperWorkers } from './services/WhisperWorker';
+import { resolveVadOptions } from './services/VoiceActivityDetector';
+import { transcriptStore, createSessionId } from './services/TranscriptStore';
+import { enforceGlossary, glossaryEntriesFor, glossaryStore, resolveGlossary, type Glossary } from './services/Glossary';
+import { createTtsEngine, encodeWavToOpusWebm } from './services/tts';
+import { getTranslationProvider, type TranslationContextEntry, type TranslationRequest } from './services/translation';
+import { metrics, PROMETHEUS_CONTENT_TYPE } from './services/Metrics';
+import { checkReadiness } from './services/Readiness';
+import { ClientSendQueue, type OutboundOptions, type SendQueueLimits } from './services/ClientSendQueue';
+import { ANONYMOUS_CLAIMS, ANY_ROOM, canAccessRoom, extractJoinToken, getJoinTokenSecret, isAuthDisabled, verifyJoinToken, type JoinTokenClaims } from './services/JoinTokens';
+import {
+  PCM_INPUT_SAMPLE_RATE,
+  PROTOCOL_VERSION,
+  SLOW_CONSUMER_CLOSE_CODE,
+  SYNTHESIZED_AUDIO_MIME_TYPE,
+  decodeAudioFrame,
+  encodeServerMessage,
+  encodeSynthesizedAudioFrame,
+  parseClientMessage,
+  resolveAudioInputFormat,
+  type AudioFrameHeader,
+  type AudioInputFormat,
+  type ClientMessage,
+  type ErrorCode,
+  type JoinRole,
+  type ServerMessage,
+} from './lib/protocol';
 
 dotenvConfig();
 
 const PORT = parseInt(process.env.NEXT_PUBLIC_WEBSOCKET_PORT || process.env.WEBSOCKET_PORT || '3001', 10);
-const wss = new WebSocketServer({ port: PORT });
+// Number of previous source/target sentence pairs sent along with each segment for coherence
+const TRANSLATION_CONTEXT_SIZE = parseInt(process.env.TRANSLATION_CONTEXT_SIZE || '3', 10);
+// Every client is pinged at this interval and dropped when nothing (pong or message) arrived within the timeout
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.HEARTBEAT_INTERVAL_MS || '15000', 10);
+const HEARTBEAT_TIMEOUT_MS = parseInt(process.env.HEARTBEAT_TIMEOUT_MS || '35000', 10);
+// How long a speaker's stream survives a lost connection, waiting for 'resume_stream'
+const RESUME_GRACE_MS = parseInt(process.env.RESUME_GRACE_MS || '30000', 10);
+// How far back listeners joining late can catch up ('historySeconds' / 'sinceSegmentId' on subscribe)
+const HISTORY_RETENTION_SECONDS = parseInt(process.env.HISTORY_RETENTION_SECONDS || '1800', 10);
+const MAX_HISTORY_ENTRIES = 1000;
+// Longest hole in a PCM stream (lost frames, by their capture timestamps) that is filled with silence
+const MAX_PCM_GAP_FILL_MS = 5000;
+const PCM_BYTES_PER_MS = (PCM_INPUT_SAMPLE_RATE * 2) / 1000;
+// Used when 'start_transcription_stream' names no model; also the model /readyz checks for
+const DEFAULT_WHISPER_MODEL = process.env.WHISPER_MODEL || 'base';
+// Models clients may ask for. Each one runs its own Whisper process, so the list stays short
+const ALLOWED_WHISPER_MODELS = new Set([
+  DEFAULT_WHISPER_MODEL,
+  ...(process.env.WHISPER_MODELS || 'tiny,base,small').split(',').map(name => name.trim()).filter(Boolean),
+]);
+// Per-client send queues: clients further behind than either limit are disconnected as slow consumers
+const SEND_QUEUE_LIMITS: SendQueueLimits = {
+  writeBufferBytes: 64 * 1024,
+  highWaterBytes: parseInt(process.env.SEND_QUEUE_HIGH_WATER_BYTES || String(1024 * 1024), 10),
+  maxLagMs: parseInt(process.env.SEND_QUEUE_MAX_LAG_MS || '30000', 10),
+};
+// A slow consumer is unlikely to read the close frame promptly either
+const SLOW_CONSUMER_TERMINATE_MS = 5000;
+const JOIN_TOKEN_SECRET = getJoinTokenSecret();
 
-console.log(`[WebSocketServer] Started on ws://localhost:${PORT}`);
+if (!JOIN_TOKEN_SECRET && !isAuthDisabled()) {
+  console.error('[WebSocketServer] JOIN_TOKEN_SECRET is not set. Set it (and issue tokens with `npm run token:create`) or set AUTH_DISABLED=true for local development.');
+  process.exit(1);
+}
+
+// Roles allowed to perform each client action; the token's room is checked separately.
+const ACTION_ROLES: Record<ClientMessage['action'], readonly JoinRole[]> = {
+  hello: ['speaker', 'listener', 'moderator'],
+  start_transcription_stream: ['speaker', 'moderator'],
+  stop_transcription_stream: ['speaker', 'moderator'],
+  resume_stream: ['speaker', 'moderator'],
+  subscribe_audio: ['listener', 'moderator'],
+};
+
+const upgradeClaims = new WeakMap<IncomingMessage, JoinTokenClaims>(); // Verified at upgrade, read on 'connection'
+
+// Plain HTTP requests on the WebSocket port: liveness, readiness and Prometheus metrics
+function handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+  const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  const sendJson = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    return;
+  }
+  switch (pathname) {
+    case '/healthz':
+      sendJson(200, { status: 'ok' });
+      return;
+    case '/readyz':
+      checkReadiness()
+        .then(report => sendJson(report.ready ? 200 : 503, { status: report.ready ? 'ready' : 'not_ready', checks: report.checks }))
+        .catch((error: Error) => sendJson(503, { status: 'not_ready', error: error.message }));
+      return;
+    case '/metrics':
+      res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+      res.end(metrics.render());
+      return;
+    default:
+      sendJson(404, { error: 'Not found' });
+  }
+}
+
+const httpServer = createServer(handleHttpRequest);
+
+const wss = new WebSocketServer({
+  server: httpServer,
+  // Rejects the HTTP upgrade itself, so unauthenticated clients never get a socket
+  verifyClient: ({ req }, done) => {
+    if (!JOIN_TOKEN_SECRET) {
+      upgradeClaims.set(req, ANONYMOUS_CLAIMS);
+      done(true);
+      return;
+    }
+    const token = extractJoinToken(req.url, req.headers.authorization);
+    if (!token) {
+      console.warn(`[WebSocketServer] Rejected upgrade from ${req.socket.remoteAddress}: no join token.`);
+      done(false, 401, 'Missing join token');
+      return;
+    }
+    const verification = verifyJoinToken(token, JOIN_TOKEN_SECRET);
+    if (!verification.success) {
+      console.warn(`[WebSocketServer] Rejected upgrade from ${req.socket.remoteAddress}: ${verification.reason}`);
+      done(false, 401, 'Invalid join token');
+      return;
+    }
+    upgradeClaims.set(req, verification.claims);
+    done(true);
+  },
+});
+const ttsEngine = createTtsEngine(); // null when TTS_ENGINE=none; listeners then use browser speech
+const defaultTranslationProvider = getTranslationProvider(); // Sessions may pick another one in 'start_transcription_stream'
+
+httpServer.listen(PORT);
+console.log(`[WebSocketServer] Started on ws://localhost:${PORT} (health: /healthz, /readyz, metrics: /metrics)`);
+console.log(`[WebSocketServer] Server-side TTS: ${ttsEngine ? ttsEngine.name : 'disabled'}`);
+console.log(`[WebSocketServer] Default translation provider: ${defaultTranslationProvider.name}`);
+if (isAuthDisabled()) {
+  console.warn('[WebSocketServer] AUTH_DISABLED=true: accepting unauthenticated clients with full access.');
+}
 
 // --- Server State Management ---
-const audioSubscribers = new Set<WebSocket>(); // Listeners for final translations
-const activeTranscribers = new Map<WebSocket, RealtimeTranscriber>(); // Maps speaking clients to their transcriber instances
-let lastBroadcastedTranslation: { text: string; targetLanguage: string; } | null = null;
-// Cache to avoid reprocessing identical consecutive transcriptions for the same client stream
-const lastProcessedTextInfo = new Map<WebSocket, string>(); 
+const DEFAULT_ROOM_ID = 'default';
+
+const DEFAULT_TARGET_LANGUAGE = 'en';
+
+/** Who an utterance came from, as sent to clients along with it. */
+interface SpeakerInfo {
+  speakerId: string;
+  speakerName: string;
+}
+
+interface TranslatedText extends SpeakerInfo {
+  text: string;
+  targetLanguage: string;
+}
+
+/** A committed segment kept for catch-up, with every translation produced for it so far. */
+interface HistoryEntry extends SpeakerInfo {
+  segmentId: string;
+  committedAt: number; // Date.now() when the segment was committed
+  translations: Map<string, string>; // targetLanguage -> translated text
+}
+
+/**
+ * A named session (room). Speakers publish into a room and only the listeners
+ * subscribed to that same room receive its translations, in the language each
+ * listener asked for.
+ */
+interface Room {
+  id: string;
+  speakers: Set<WebSocket>;
+  streams: Set<SpeakerStream>; // Includes streams whose speaker is disconnected but may still resume
+  listeners: Map<WebSocket, RoomListener>;
+  lastBroadcastedTranslations: Map<string, TranslatedText>; // Snapshot per target language for late joiners
+  history: HistoryEntry[]; // Recent segments in commit order, bounded by HISTORY_RETENTION_SECONDS
+  speakerCount: number; // Streams ever started in the room; numbers default speaker names and TTS voices
+}
+
+/** A listener of a room: final translations in one language, optionally as speech. */
+interface RoomListener {
+  targetLanguage: string;
+  audio: boolean;
+  voicePerSpeaker: boolean; // Each speaker's segments synthesized with a voice of their own
+}
+
+/**
+ * A speaker's transcription stream. It outlives the socket that started it: when the
+ * connection drops, the stream is detached (socket = null) and keeps its transcriber,
+ * buffered audio and translation state until the speaker resumes or the grace period ends.
+ */
+interface SpeakerStream {
+  room: Room;
+  streamId: number; // Chosen by the speaker; tags this stream's audio frames on its connection
+  speaker: SpeakerInfo;
+  speakerIndex: number; // Order in which the stream joined its room (0 = first), picks its TTS voice
+  sessionId: string;
+  resumeToken: string;
+  inputFormat: AudioInputFormat;
+  transcriber: RealtimeTranscriber;
+  socket: WebSocket | null;
+  outbox: string[]; // Messages for the speaker produced while detached, delivered on resume
+  graceTimer: NodeJS.Timeout | null;
+  nextSequence: number; // Sequence number the next audio frame should carry
+  lastCaptureTimestamp: number | null; // Of the last frame accepted
+}
+
+const MAX_OUTBOX_MESSAGES = 200;
+
+const rooms = new Map<string, Room>();
+const clientRooms = new Map<WebSocket, string>(); // Maps every client (speaker or listener) to the room it joined
+const activeStreams = new Map<WebSocket, Map<number, SpeakerStream>>(); // Streams attached to each speaking client, by stream id
+const streamsByResumeToken = new Map<string, SpeakerStream>(); // Every live stream, attached or detached
+const lastSeenAt = new Map<WebSocket, number>(); // Last pong or message per client, for the heartbeat
+const sendQueues = new Map<WebSocket, ClientSendQueue>(); // Every message to a client goes through its queue
+
+// --- Metrics ---
+metrics.gauge('active_speakers', 'Transcription streams, attached or waiting to be resumed.', () => streamsByResumeToken.size);
+metrics.gauge('active_listeners', 'Subscribed listeners per target language.', () => {
+  const byLanguage = new Map<string, number>();
+  rooms.forEach(room => room.listeners.forEach(({ targetLanguage }) => byLanguage.set(targetLanguage, (byLanguage.get(targetLanguage) || 0) + 1)));
+  return Array.from(byLanguage, ([targetLanguage, value]) => ({ labels: { target_language: targetLanguage }, value }));
+});
+metrics.gauge('active_rooms', 'Rooms with at least one speaker or listener.', () => rooms.size);
+metrics.gauge('connected_clients', 'Open WebSocket connections.', () => wss.clients.size);
+const translationLatency = metrics.histogram('translation_seconds', 'Time spent translating one segment into one language.');
+const errorsTotal = metrics.counter('errors_total', 'Error messages sent to clients, by error code.');
+const glossaryFixes = metrics.counter('glossary_fixes_total', 'Glossary terms the post-check rewrote in translations.');
+const glossaryViolationsTotal = metrics.counter('glossary_violations_total', 'Glossary terms translations still broke after the post-check.');
+const audioFramesTotal = metrics.counter('audio_frames_total', 'Audio frames received from speakers and passed to a transcriber.');
+const audioFramesMissing = metrics.counter('audio_frames_missing_total', 'Audio frames skipped by the sequence numbers speakers sent.');
+const audioFramesOutOfOrder = metrics.counter('audio_frames_out_of_order_total', 'Late or repeated audio frames, dropped on arrival.');
+
+function normalizeRoomId(roomId: string | undefined): string {
+  return roomId && roomId.trim() ? roomId.trim() : DEFAULT_ROOM_ID;
+}
+
+/** Queues an encoded message (or binary frame) for a client; dropped when the client is gone. */
+function deliver(ws: WebSocket, payload: string | Uint8Array, options?: OutboundOptions) {
+  sendQueues.get(ws)?.send(payload, options);
+}
+
+/** Partials are superseded by the speaker's next partial or final while they wait in a send queue. */
+function outboundOptions(message: ServerMessage): OutboundOptions | undefined {
+  if (message.type === 'transcription_partial') return { kind: 'partial', key: message.speakerId };
+  if (message.type === 'transcription_final') return { kind: 'final', key: message.speakerId };
+  return undefined;
+}
+
+function send(ws: WebSocket, message: ServerMessage) {
+  deliver(ws, encodeServerMessage(message), outboundOptions(message));
+}
+
+function sendError(ws: WebSocket, code: ErrorCode, message: string) {
+  errorsTotal.inc({ code });
+  send(ws, { type: 'error', code, message });
+}
+
+function getOrCreateRoom(roomId: string): Room {
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = { id: roomId, speakers: new Set(), streams: new Set(), listeners: new Map(), lastBroadcastedTranslations: new Map(), history: [], speakerCount: 0 };
+    rooms.set(roomId, room);
+    console.log(`[WebSocketServer] Room '${roomId}' created.`);
+  }
+  return room;
+}
+
+function removeRoomIfEmpty(room: Room) {
+  if (room.speakers.size === 0 && room.listeners.size === 0 && room.streams.size === 0 && rooms.get(room.id) === room) {
+    rooms.delete(room.id);
+    console.log(`[WebSocketServer] Room '${room.id}' is empty and was removed.`);
+  }
+}
+
+/**
+ * Removes a client from whichever room it had joined and drops the room once
+ * nobody is left in it.
+ */
+function leaveRoom(ws: WebSocket) {
+  const roomId = clientRooms.get(ws);
+  if (!roomId) return;
+  clientRooms.delete(ws);
+  const room = rooms.get(roomId);
+  if (!room) return;
+  room.speakers.delete(ws);
+  room.listeners.delete(ws);
+  removeRoomIfEmpty(room);
+}
+
+function joinRoom(ws: WebSocket, roomId: string, role: 'speaker' | 'listener', targetLanguage = DEFAULT_TARGET_LANGUAGE, audio = false, voicePerSpeaker = false): Room {
+  if (clientRooms.get(ws) !== roomId) {
+    leaveRoom(ws);
+  }
+  const room = getOrCreateRoom(roomId);
+  room.speakers.delete(ws);
+  room.listeners.delete(ws);
+  if (role === 'speaker') {
+    room.speakers.add(ws);
+  } else {
+    room.listeners.set(ws, { targetLanguage, audio, voicePerSpeaker });
+  }
+  clientRooms.set(ws, roomId);
+  return room;
+}
+
+/** Sends an encoded message to a stream's speaker, or keeps it for the resume while the speaker is away. */
+function sendToSpeaker(stream: SpeakerStream, payload: string, options?: OutboundOptions) {
+  if (stream.socket && stream.socket.readyState === WebSocket.OPEN) {
+    deliver(stream.socket, payload, options);
+  } else if (stream.outbox.length < MAX_OUTBOX_MESSAGES) {
+    stream.outbox.push(payload);
+  }
+}
+
+/** Sends a message to a stream's speaker and to every listener of its room. */
+function publishToRoom(stream: SpeakerStream, message: ServerMessage) {
+  const payload = encodeServerMessage(message);
+  const options = outboundOptions(message);
+  sendToSpeaker(stream, payload, options);
+  stream.room.listeners.forEach((_listener, subscriber) => {
+    if (subscriber !== stream.socket && subscriber.readyState === WebSocket.OPEN) {
+      deliver(subscriber, payload, options);
+    }
+  });
+}
+
+/** Stops a stream for good: its transcriber, its resume token and its place in the room. */
+function stopStream(stream: SpeakerStream) {
+  if (stream.graceTimer) {
+    clearTimeout(stream.graceTimer);
+    stream.graceTimer = null;
+  }
+  stream.transcriber.stop();
+  streamsByResumeToken.delete(stream.resumeToken);
+  stream.room.streams.delete(stream);
+  if (stream.socket) {
+    releaseSocket(stream);
+  } else {
+    removeRoomIfEmpty(stream.room);
+  }
+}
+
+/** The streams attached to a connection. */
+function getAttachedStreams(ws: WebSocket): SpeakerStream[] {
+  return Array.from(activeStreams.get(ws)?.values() || []);
+}
+
+/** Unlinks a stream from its socket; the socket leaves the room along with its last stream. */
+function releaseSocket(stream: SpeakerStream) {
+  const socket = stream.socket;
+  if (!socket) return;
+  const streams = activeStreams.get(socket);
+  if (streams?.get(stream.streamId) === stream) streams.delete(stream.streamId);
+  if (!streams || streams.size === 0) {
+    activeStreams.delete(socket);
+    leaveRoom(socket);
+  }
+  stream.socket = null;
+}
+
+/**
+ * Detaches a stream from its (lost) socket and gives the speaker RESUME_GRACE_MS to
+ * come back with the resume token before the stream is stopped.
+ */
+function detachStream(stream: SpeakerStream) {
+  releaseSocket(stream);
+  if (stream.graceTimer) clearTimeout(stream.graceTimer);
+  stream.graceTimer = setTimeout(() => {
+    console.log(`[WebSocketServer] Stream of session ${stream.sessionId} was not resumed within ${RESUME_GRACE_MS}ms. Stopping it.`);
+    stopStream(stream);
+  }, RESUME_GRACE_MS);
+}
+
+function attachStream(stream: SpeakerStream, ws: WebSocket) {
+  if (stream.graceTimer) {
+    clearTimeout(stream.graceTimer);
+    stream.graceTimer = null;
+  }
+  stream.socket = ws;
+  let streams = activeStreams.get(ws);
+  if (!streams) {
+    streams = new Map();
+    activeStreams.set(ws, streams);
+  }
+  streams.set(stream.streamId, stream);
+  joinRoom(ws, stream.room.id, 'speaker');
+}
+
+/**
+ * Checks a frame's sequence number against the stream. Frames must arrive in order:
+ * late and repeated frames are dropped (spliced into a WebM stream they would corrupt
+ * it), skipped numbers are counted as lost, and for PCM the lost audio is replaced
+ * by as much silence as the capture timestamps say is missing.
+ */
+function acceptAudioFrame(stream: SpeakerStream, header: AudioFrameHeader, payloadBytes: number): boolean {
+  if (header.sequence < stream.nextSequence) {
+    audioFramesOutOfOrder.inc();
+    console.warn(`[WebSocketServer] Session ${stream.sessionId}: dropped out-of-order audio frame ${header.sequence} (expected ${stream.nextSequence}).`);
+    return false;
+  }
+  if (header.sequence > stream.nextSequence) {
+    const missing = header.sequence - stream.nextSequence;
+    audioFramesMissing.inc({}, missing);
+    let filledMs = 0;
+    if (stream.inputFormat === 'pcm' && stream.lastCaptureTimestamp !== null) {
+      // Timestamps mark the end of each frame's capture
+      const gapMs = header.captureTimestamp - stream.lastCaptureTimestamp - payloadBytes / PCM_BYTES_PER_MS;
+      filledMs = Math.round(Math.min(Math.max(gapMs, 0), MAX_PCM_GAP_FILL_MS));
+      if (filledMs > 0) stream.transcriber.addAudioChunk(Buffer.alloc(filledMs * PCM_BYTES_PER_MS));
+    }
+    console.warn(`[WebSocketServer] Session ${stream.sessionId}: ${missing} audio frame(s) missing before frame ${header.sequence}${filledMs > 0 ? `, filled with ${filledMs}ms of silence` : ''}.`);
+  }
+  stream.nextSequence = header.sequence + 1;
+  stream.lastCaptureTimestamp = header.captureTimestamp;
+  audioFramesTotal.inc();
+  return true;
+}
+
+function recordHistory(room: Room, segmentId: string, speaker: SpeakerInfo) {
+  const now = Date.now();
+  room.history.push({ segmentId, ...speaker, committedAt: now, translations: new Map() });
+  const cutoff = now - HISTORY_RETENTION_SECONDS * 1000;
+  const firstKept = room.history.findIndex(entry => entry.committedAt >= cutoff);
+  room.history.splice(0, firstKept === -1 ? room.history.length : firstKept);
+  if (room.history.length > MAX_HISTORY_ENTRIES) {
+    room.history.splice(0, room.history.length - MAX_HISTORY_ENTRIES);
+  }
+}
+
+function recordHistoryTranslation(room: Room, segmentId: string, targetLanguage: string, text: string) {
+  // Translations arrive in commit order, so the segment is almost always at the end
+  for (let i = room.history.length - 1; i >= 0; i--) {
+    if (room.history[i].segmentId === segmentId) {
+      room.history[i].translations.set(targetLanguage, text);
+      return;
+    }
+  }
+}
+
+/**
+ * Translated segments a catching-up listener should receive, oldest first: everything after
+ * `sinceSegmentId` (or all retained history when that id is unknown or expired), else
+ * everything committed in the last `historySeconds`. Segments never translated into the
+ * listener's language are skipped.
+ */
+function getHistoryForListener(room: Room, targetLanguage: string, sinceSegmentId: string | undefined, historySeconds: number | undefined) {
+  let entries = room.history;
+  if (sinceSegmentId !== undefined) {
+    const index = entries.findIndex(entry => entry.segmentId === sinceSegmentId);
+    entries = index === -1 ? entries : entries.slice(index + 1);
+  } else if (historySeconds !== undefined) {
+    const cutoff = Date.now() - historySeconds * 1000;
+    entries = entries.filter(entry => entry.committedAt >= cutoff);
+  }
+  return entries
+    .filter(entry => entry.translations.has(targetLanguage))
+    .map(entry => ({ segmentId: entry.segmentId, speakerId: entry.speakerId, speakerName: entry.speakerName, text: entry.translations.get(targetLanguage)! }));
+}
+
+/** Compares base language codes, so 'en' and 'en-US' count as the same language. */
+function isSameLanguage(a: string, b: string): boolean {
+  return a.split(/[-_]/)[0].toLowerCase() === b.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Distinct target languages a new segment must be translated into: the speaker's
+ * own preview language plus every language requested by the room's listeners.
+ */
+function getRequestedLanguages(room: Room, speakerTargetLanguage: string): string[] {
+  const languages = new Set<string>([speakerTargetLanguage]);
+  room.listeners.forEach(({ targetLanguage }) => languages.add(targetLanguage));
+  return Array.from(languages);
+}
+
+/**
+ * Synthesizes a translated segment and sends it as a binary frame to every listener of the
+ * room that asked for speech in that language: once in the default voice, and once more in
+ * the stream's own speaker voice when listeners asked for one voice per speaker and the
+ * engine has a different voice for this speaker. Nothing is synthesized when no such
+ * listener is connected.
+ */
+async function synthesizeForListeners(stream: SpeakerStream, segmentId: string, targetLanguage: string, text: string) {
+  const engine = ttsEngine;
+  if (!engine) return;
+  const { room } = stream;
+  const speakerVoice = engine.voiceForSpeaker?.(targetLanguage, stream.speakerIndex);
+  // Listeners that hear this synthesis (undefined: the default voice)
+  const audioSubscribers = (voice: string | undefined) => Array.from(room.listeners.entries())
+    .filter(([subscriber, listener]) => listener.audio && listener.targetLanguage === targetLanguage && subscriber.readyState === WebSocket.OPEN)
+    .filter(([, listener]) => (listener.voicePerSpeaker && speakerVoice !== undefined ? speakerVoice : undefined) === voice)
+    .map(([subscriber]) => subscriber);
+
+  const voices = speakerVoice === undefined ? [undefined] : [undefined, speakerVoice];
+  for (const voice of voices) {
+    if (audioSubscribers(voice).length === 0) continue;
+    try {
+      const wav = await engine.synthesize(text, { language: targetLanguage, voice });
+      const audio = await encodeWavToOpusWebm(wav);
+      const frame = encodeSynthesizedAudioFrame(
+        { roomId: room.id, ...stream.speaker, segmentId, targetLanguage, mimeType: SYNTHESIZED_AUDIO_MIME_TYPE },
+        audio
+      );
+      // Re-read the subscribers: some may have left or switched language while synthesizing
+      audioSubscribers(voice).forEach(subscriber => deliver(subscriber, frame));
+    } catch (synthesisError: any) {
+      console.error(`[TTS-${engine.name}] Error synthesizing segment ${segmentId} (${targetLanguage}${voice ? `, voice ${voice}` : ''}):`, synthesisError.message);
+      audioSubscribers(voice).forEach(subscriber => sendError(subscriber, 'synthesis_failed', `Speech synthesis error (${targetLanguage}): ${synthesisError.message}`));
+    }
+  }
+}
 
 
 // --- Main Connection Logic ---
-wss.on('connection', (ws: WebSocket) => {
+wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
   const clientId = Date.now().toString() + Math.random().toString(36).substring(2,7);
-  console.log(`[WebSocketServer] Client ${clientId} connected.`);
+  const claims = upgradeClaims.get(req) || ANONYMOUS_CLAIMS;
+  let handshakeComplete = false; // Set once the client's 'hello' announced a supported protocol version
+  let invalidAudioFrameReported = false; // One error per connection is enough; malformed frames keep coming
+  console.log(`[WebSocketServer] Client ${clientId} connected as ${claims.role} of room '${claims.room}'.`);
+
+  /**
+   * Room an action applies to: the requested one, or the token's own room when none was
+   * given. Null (after telling the client) when the token does not grant that room.
+   */
+  const resolveAuthorizedRoom = (requestedRoomId: string | undefined): string | null => {
+    const roomId = normalizeRoomId(requestedRoomId ?? (claims.room !== ANY_ROOM ? claims.room : undefined));
+    if (!canAccessRoom(claims, roomId)) {
+      console.warn(`[WebSocketServer] Client ${clientId} (${claims.role} of '${claims.room}') denied access to room '${roomId}'.`);
+      sendError(ws, 'forbidden', `Your join token does not grant access to room '${roomId}'.`);
+      return null;
+    }
+    return roomId;
+  };
+
+  /** A connection's streams all publish into one room. False (after telling the client) when another room is in use. */
+  const canAddStream = (roomId: string, streamId: number): boolean => {
+    const otherRoom = getAttachedStreams(ws).find(stream => stream.streamId !== streamId && stream.room.id !== roomId)?.room.id;
+    if (otherRoom) {
+      console.warn(`[WebSocketServer] Client ${clientId} tried to add stream ${streamId} in room '${roomId}' while streaming to room '${otherRoom}'.`);
+      sendError(ws, 'stream_active', `This connection is streaming to room '${otherRoom}'. Stop its streams before using room '${roomId}'.`);
+      return false;
+    }
+    return true;
+  };
+
+  sendQueues.set(ws, new ClientSendQueue(ws, clientId, claims.role, SEND_QUEUE_LIMITS, (reason) => {
+    console.warn(`[WebSocketServer] Client ${clientId} is a slow consumer (${reason}). Disconnecting it.`);
+    ws.close(SLOW_CONSUMER_CLOSE_CODE, 'Slow consumer');
+    setTimeout(() => ws.terminate(), SLOW_CONSUMER_TERMINATE_MS).unref();
+  }));
+  lastSeenAt.set(ws, Date.now());
+  ws.on('pong', () => lastSeenAt.set(ws, Date.now()));
 
   ws.on('message', async (data: RawData, isBinary: boolean) => {
+    lastSeenAt.set(ws, Date.now());
     if (isBinary) {
-      // Handle binary audio chunk
+      // Handle binary audio frame: header, then the chunk for the stream it names
       const audioBuffer = data instanceof Buffer ? data : Buffer.from(data as ArrayBuffer);
-      const transcriber = activeTranscribers.get(ws);
-      if (transcriber) {
-        transcriber.addAudioChunk(audioBuffer);
-      } else {
-        // console.warn(`[WebSocketServer] Client ${clientId} sent audio chunk without active transcription stream.`);
+      const frame = decodeAudioFrame(audioBuffer);
+      if (!frame.success) {
+        if (!invalidAudioFrameReported) {
+          console.warn(`[WebSocketServer] Client ${clientId} sent an invalid audio frame: ${frame.message}`);
+          sendError(ws, frame.code, frame.message);
+          invalidAudioFrameReported = true;
+        }
+        return;
+      }
+      const { header, payload } = frame.data;
+      const stream = activeStreams.get(ws)?.get(header.streamId);
+      if (stream && acceptAudioFrame(stream, header, payload.length)) {
+        stream.transcriber.addAudioChunk(Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength));
       }
       return;
     }
 
-    // Handle text message (should be JSON control message)
+    // Handle text message (should be a JSON control message, see lib/protocol.ts)
     const messageString = data.toString();
-    let parsedData: any;
-    try {
-      parsedData = JSON.parse(messageString);
-    } catch (e) {
-      console.error(`[WebSocketServer] Client ${clientId} sent invalid JSON string:`, messageString, e);
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ error: 'Invalid JSON message received.' }));
-      }
+    const parsed = parseClientMessage(messageString);
+    if (!parsed.success) {
+      console.error(`[WebSocketServer] Client ${clientId} sent an invalid message (${parsed.code}):`, parsed.message, messageString);
+      sendError(ws, parsed.code, parsed.message);
+      return;
+    }
+    const message = parsed.data;
+
+    if (message.action !== 'hello' && !handshakeComplete) {
+      sendError(ws, 'handshake_required', `Send 'hello' with protocolVersion ${PROTOCOL_VERSION} before '${message.action}'.`);
+      return;
+    }
+
+    if (!ACTION_ROLES[message.action].includes(claims.role)) {
+      console.warn(`[WebSocketServer] Client ${clientId} (${claims.role}) is not allowed to '${message.action}'.`);
+      sendError(ws, 'forbidden', `Role '${claims.role}' is not allowed to '${message.action}'.`);
       return;
     }
 
-    const { action, language, targetLanguage, model } = parsedData;
-    // console.log(`[WebSocketServer] Client ${clientId} sent action: ${action}`, parsedData);
+    switch (message.action) {
+      case 'hello': {
+        if (message.protocolVersion !== PROTOCOL_VERSION) {
+          console.warn(`[WebSocketServer] Client ${clientId} uses unsupported protocol version ${message.protocolVersion}.`);
+          sendError(ws, 'unsupported_protocol_version', `Protocol version ${message.protocolVersion} is not supported. Server speaks version ${PROTOCOL_VERSION}.`);
+          ws.close(1002, 'Unsupported protocol version'); // 1002 Protocol Error
+          break;
+        }
+        handshakeComplete = true;
+        send(ws, { type: 'welcome', protocolVersion: PROTOCOL_VERSION, clientId, role: claims.role });
+        break;
+      }
 
-    switch (action) {
       case 'start_transcription_stream': {
-        console.log(`[WebSocketServer] Client ${clientId} initiated 'start_transcription_stream'. Lang: ${language}, TargetLang: ${targetLanguage}, Model: ${model}`);
-        if (activeTranscribers.has(ws)) {
-          console.warn(`[WebSocketServer] Client ${clientId} already has an active stream. Stopping old one.`);
-          activeTranscribers.get(ws)?.stop();
-          activeTranscribers.delete(ws);
-          lastProcessedTextInfo.delete(ws); // Clear cache for the old stream
+        const { language, targetLanguage } = message;
+        const model = message.model || DEFAULT_WHISPER_MODEL;
+        const streamId = message.streamId ?? 0;
+        const roomId = resolveAuthorizedRoom(message.roomId);
+        if (!roomId) break;
+        if (!canAddStream(roomId, streamId)) break;
+        if (!ALLOWED_WHISPER_MODELS.has(model)) {
+          console.warn(`[WebSocketServer] Client ${clientId} requested the unsupported model '${model}'.`);
+          sendError(ws, 'unsupported_model', `Model '${model}' is not available. Use one of: ${Array.from(ALLOWED_WHISPER_MODELS).join(', ')}.`);
+          break;
         }
+        const resolvedInputFormat = resolveAudioInputFormat(message.inputFormat, message.mimeType);
+        if (!resolvedInputFormat.success) {
+          console.warn(`[WebSocketServer] Client ${clientId} requested an unsupported input format: ${resolvedInputFormat.message}`);
+          sendError(ws, resolvedInputFormat.code, resolvedInputFormat.message);
+          break;
+        }
+        const inputFormat = resolvedInputFormat.data;
+        console.log(`[WebSocketServer] Client ${clientId} initiated 'start_transcription_stream'. Room: ${roomId}, Stream: ${streamId}, Lang: ${language}, TargetLang: ${targetLanguage}, Model: ${model}, Input: ${inputFormat}${message.mimeType ? ` (${message.mimeType})` : ''}, Translation: ${message.translationProvider || defaultTranslationProvider.name}`);
+        const existingStream = activeStreams.get(ws)?.get(streamId);
+        if (existingStream) {
+          console.warn(`[WebSocketServer] Client ${clientId} already has an active stream ${streamId}. Stopping old one.`);
+          stopStream(existingStream);
+        }
+        const room = joinRoom(ws, roomId, 'speaker');
+        // Every stream is a speaker of its own, numbered in the order it joined the room
+        const speakerIndex = room.speakerCount++;
+        const speaker: SpeakerInfo = {
+          speakerId: randomBytes(6).toString('base64url'),
+          speakerName: message.speakerName || claims.sub?.trim() || `Speaker ${speakerIndex + 1}`,
+        };
+        // Every stream is recorded as its own session so it can be exported afterwards
+        const sessionId = createSessionId(room.id);
+        void transcriptStore.startSession({
+          sessionId,
+          roomId: room.id,
+          sourceLanguage: language || 'pt',
+          startedAt: new Date().toISOString(),
+          ...speaker,
+        });
+        // Per-stream translation state: the last few source/target pairs per language, and chains that
+        // keep segments translated (and delivered, and spoken) in the order they were committed.
+        const translationProvider = message.translationProvider ? getTranslationProvider(message.translationProvider) : defaultTranslationProvider;
+        const translationContexts = new Map<string, TranslationContextEntry[]>();
+        let translationChain: Promise<void> = Promise.resolve();
+        let synthesisChain: Promise<void> = Promise.resolve(); // Separate so slow TTS never holds back text
+        // Assigned right after the transcriber is created; its callbacks only run once it has started
+        let stream: SpeakerStream;
 
         const transcriber = new RealtimeTranscriber({
           language: language || 'pt', // Default to 'pt' if not provided
-          model: model || 'base',     // Default to 'base' if not provided
-          targetLanguage: targetLanguage || 'en', // Default to 'en'
-          onTranscriptionReady: async (fullTranscription: string, tlForThisSegment: string) => {
-            console.log(`[TranscriberCallback-${clientId}] Full Transcription: "${fullTranscription.substring(0, 50)}..." for target ${tlForThisSegment}`);
-            if (!fullTranscription.trim()) {
-                // console.log(`[TranscriberCallback-${clientId}] Empty transcription, skipping translation.`);
+          model,
+          sessionId,
+          targetLanguage: targetLanguage || DEFAULT_TARGET_LANGUAGE,
+          vad: resolveVadOptions(message.vad), // Per-session thresholds, merged over the defaults
+          initialPrompt: message.initialPrompt,
+          vocabulary: message.vocabulary,
+          inputFormat,
+          onSpeechStart: (time) => {
+            publishToRoom(stream, { type: 'speech_start', roomId: room.id, ...speaker, time });
+          },
+          onSpeechEnd: (time) => {
+            publishToRoom(stream, { type: 'speech_end', roomId: room.id, ...speaker, time });
+          },
+          onPartialTranscription: (partial) => {
+            // Interim hypothesis: shown greyed-out by the UIs, never translated or spoken
+            publishToRoom(stream, { type: 'transcription_partial', roomId: room.id, ...speaker, text: partial.text, start: partial.start });
+          },
+          onFinalTranscription: async (segment, tlForThisSegment: string) => {
+            console.log(`[TranscriberCallback-${clientId}] Final segment ${segment.id} (${speaker.speakerName}): "${segment.text.substring(0, 50)}..." for target ${tlForThisSegment}`);
+            if (!segment.text.trim()) {
                 return;
             }
 
-            const textToTranslate = fullTranscription;
-            // language for translation source is the one originally provided in 'start_transcription_stream'
-            const sourceLanguageForTranslation = language || 'pt'; 
-            
-            // Cache logic: if the exact same transcribed text, source lang, and target lang are processed consecutively for this client's stream
-            const cacheKey = `${textToTranslate}-${sourceLanguageForTranslation}-${tlForThisSegment}`;
-            if (lastProcessedTextInfo.get(ws) === cacheKey) {
-                 console.log(`[TranscriberCallback-${clientId}] Cache hit for client ${ws}. Skipping re-translation for: "${textToTranslate.substring(0,30)}..."`);
-                 // Optionally resend the last known good translation if needed, though this might be redundant if client already has it
-                 if (lastBroadcastedTranslation && lastBroadcastedTranslation.text && ws.readyState === WebSocket.OPEN) {
-                    // ws.send(JSON.stringify({ type: 'translated_text_for_listener', ...lastBroadcastedTranslation }));
-                 }
-                 return;
-            }
-            lastProcessedTextInfo.set(ws, cacheKey);
-
-            try {
-              const translationInput: ImproveTranslationAccuracyInput = {
-                text: textToTranslate,
-                sourceLanguage: sourceLanguageForTranslation,
-                targetLanguage: tlForThisSegment,
-              };
-              // console.log(`[TranscriberCallback-${clientId}] Sending to translation: "${textToTranslate.substring(0,30)}..." -> ${tlForThisSegment}`);
-              const translationOutput = await improveTranslationAccuracy(translationInput);
-              const translatedText = translationOutput.translatedText;
-              
-              console.log(`[TranscriberCallback-${clientId}] Translated: "${translatedText.substring(0, 50)}..."`);
-              
-              const translationPayload = {
-                type: 'translated_text_for_listener',
-                text: translatedText,
-                targetLanguage: tlForThisSegment
-              };
-
-              // Send to the main client that initiated the transcription
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify(translationPayload));
-              }
-              
-              // Update last general broadcasted translation (for new listeners joining)
-              lastBroadcastedTranslation = { text: translatedText, targetLanguage: tlForThisSegment };
-              
-              // Also broadcast to other listeners
-              audioSubscribers.forEach(subscriber => {
-                // Don't send to the originating client again if they happen to be in audioSubscribers
-                // (though typically they wouldn't subscribe_audio for their own stream feedback this way)
-                if (subscriber !== ws && subscriber.readyState === WebSocket.OPEN) { 
-                  subscriber.send(JSON.stringify(translationPayload));
-                }
+            publishToRoom(stream, {
+              type: 'transcription_final',
+              roomId: room.id,
+              ...speaker,
+              segmentId: segment.id,
+              text: segment.text,
+              start: segment.start,
+              end: segment.end,
+              ...(segment.language ? { language: segment.language } : {}),
+              ...(segment.languageProbability !== undefined ? { languageProbability: segment.languageProbability } : {}),
+            });
+            void transcriptStore.recordSegment(sessionId, segment);
+            recordHistory(room, segment.id, speaker);
+
+            const textToTranslate = segment.text;
+            // The language Whisper recognized this segment in ('auto' sessions switch segment by segment),
+            // else the one requested in 'start_transcription_stream'
+            const sourceLanguageForTranslation = segment.language || language || 'pt';
+
+            // Fan-out: translate once per distinct language requested in the room, never once per listener.
+            // Only the newly committed segment is translated; earlier pairs travel as context.
+            const translateSegment = async () => {
+              const glossary = await glossaryStore.load(room.id).catch((glossaryError: Error): Glossary | null => {
+                console.error(`[TranscriberCallback-${clientId}] Could not load the glossary of room '${room.id}':`, glossaryError.message);
+                return null;
               });
-            } catch (translationError: any) {
-              console.error(`[TranscriberCallback-${clientId}] Error translating text:`, translationError.message);
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({ type: 'error', message: `Translation error: ${translationError.message}`}));
-              }
-            }
+              await Promise.all(getRequestedLanguages(room, tlForThisSegment).map(async (requestedLanguage) => {
+                try {
+                  const context = translationContexts.get(requestedLanguage) || [];
+                  let translatedText = textToTranslate; // Passed through when the segment is already in this language
+                  let glossaryViolations: { term: string; expected: string }[] = [];
+                  if (!isSameLanguage(sourceLanguageForTranslation, requestedLanguage)) {
+                    const glossaryEntries = glossary ? glossaryEntriesFor(textToTranslate, resolveGlossary(glossary, requestedLanguage)) : undefined;
+                    const translationRequest: TranslationRequest = {
+                      text: textToTranslate,
+                      sourceLanguage: sourceLanguageForTranslation,
+                      targetLanguage: requestedLanguage,
+                      context: context.length > 0 ? context : undefined,
+                      glossary: glossaryEntries,
+                    };
+                    const endTimer = translationLatency.startTimer({ provider: translationProvider.name, target_language: requestedLanguage });
+                    translatedText = await translationProvider.translate(translationRequest).finally(() => endTimer());
+                    if (glossary && glossaryEntries) {
+                      const check = enforceGlossary(translatedText, glossaryEntries, glossary.enforcement);
+                      translatedText = check.text;
+                      glossaryViolations = check.violations;
+                      if (check.fixed > 0) glossaryFixes.inc({ target_language: requestedLanguage }, check.fixed);
+                      if (glossaryViolations.length > 0) {
+                        glossaryViolationsTotal.inc({ target_language: requestedLanguage }, glossaryViolations.length);
+                        console.warn(`[TranscriberCallback-${clientId}] Translation (${requestedLanguage}) breaks the glossary of room '${room.id}':`, glossaryViolations.map(v => `'${v.term}' -> '${v.expected}'`).join(', '));
+                      }
+                    }
+                  }
+                  const updatedContext = [...context, { source: textToTranslate, target: translatedText }];
+                  translationContexts.set(requestedLanguage, updatedContext.slice(Math.max(0, updatedContext.length - TRANSLATION_CONTEXT_SIZE)));
+
+                  console.log(`[TranscriberCallback-${clientId}] Translated (${requestedLanguage}): "${translatedText.substring(0, 50)}..."`);
+                  void transcriptStore.recordTranslation(sessionId, segment.id, requestedLanguage, translatedText);
+
+                  const translationPayload = encodeServerMessage({
+                    type: 'translated_text_for_listener',
+                    roomId: room.id,
+                    ...speaker,
+                    segmentId: segment.id,
+                    text: translatedText,
+                    targetLanguage: requestedLanguage,
+                    ...(glossaryViolations.length > 0 ? { glossaryViolations } : {}),
+                  });
+
+                  // Send to the main client that initiated the transcription, in its own preview language
+                  if (requestedLanguage === tlForThisSegment) {
+                    sendToSpeaker(stream, translationPayload);
+                  }
+
+                  // Update the room's last broadcasted translation for this language (for new listeners joining)
+                  room.lastBroadcastedTranslations.set(requestedLanguage, { ...speaker, text: translatedText, targetLanguage: requestedLanguage });
+                  recordHistoryTranslation(room, segment.id, requestedLanguage, translatedText);
+
+                  // Also broadcast to the listeners of this room that asked for this language
+                  room.listeners.forEach((listener, subscriber) => {
+                    if (subscriber !== stream.socket && listener.targetLanguage === requestedLanguage && subscriber.readyState === WebSocket.OPEN) {
+                      deliver(subscriber, translationPayload);
+                    }
+                  });
+
+                  synthesisChain = synthesisChain.then(() => synthesizeForListeners(stream, segment.id, requestedLanguage, translatedText));
+                } catch (translationError: any) {
+                  console.error(`[TranscriberCallback-${clientId}] Error translating text to ${requestedLanguage}:`, translationError.message);
+                  errorsTotal.inc({ code: 'translation_failed' });
+                  sendToSpeaker(stream, encodeServerMessage({ type: 'error', code: 'translation_failed', message: `Translation error (${requestedLanguage}): ${translationError.message}` }));
+                }
+              }));
+            };
+            translationChain = translationChain.then(async () => { await translateSegment(); });
+            await translationChain;
           },
           onError: (error) => {
             console.error(`[RealtimeTranscriber-${clientId}] Instance Error:`, error.message);
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify({ type: 'error', message: `Transcription stream error: ${error.message}`}));
-            }
-          }
+            errorsTotal.inc({ code: 'transcription_failed' });
+            sendToSpeaker(stream, encodeServerMessage({ type: 'error', code: 'transcription_failed', message: `Transcription stream error: ${error.message}` }));
+          },
+          onFailed: (error) => {
+            console.error(`[RealtimeTranscriber-${clientId}] Stream ${streamId} failed and is stopped:`, error.message);
+            errorsTotal.inc({ code: 'stream_failed' });
+            sendToSpeaker(stream, encodeServerMessage({ type: 'error', code: 'stream_failed', message: `The transcription stream stopped: ${error.message}. Start a new stream.` }));
+            stopStream(stream);
+          },
         });
         
-        activeTranscribers.set(ws, transcriber);
+        stream = {
+          room,
+          streamId,
+          speaker,
+          speakerIndex,
+          sessionId,
+          resumeToken: randomBytes(24).toString('base64url'),
+          inputFormat,
+          transcriber,
+          socket: null,
+          outbox: [],
+          graceTimer: null,
+          nextSequence: 0,
+          lastCaptureTimestamp: null,
+        };
+        room.streams.add(stream);
+        attachStream(stream, ws);
+        streamsByResumeToken.set(stream.resumeToken, stream);
         transcriber.start();
-        if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ message: 'Transcription stream started successfully.'}));
-        }
+        console.log(`[WebSocketServer] Stream ${streamId} of client ${clientId} speaks as '${speaker.speakerName}' (${speaker.speakerId}) in room '${room.id}'.`);
+        send(ws, { type: 'stream_started', roomId: room.id, sessionId, resumeToken: stream.resumeToken, inputFormat, streamId, ...speaker });
         break;
       }
         
       case 'stop_transcription_stream': {
-        console.log(`[WebSocketServer] Client ${clientId} initiated 'stop_transcription_stream'.`);
-        const transcriber = activeTranscribers.get(ws);
-        if (transcriber) {
-          transcriber.stop();
-          activeTranscribers.delete(ws);
-          lastProcessedTextInfo.delete(ws); // Clear cache for this client's stream
-          console.log(`[WebSocketServer] Transcription stream stopped for client ${clientId}.`);
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ message: 'Transcription stream stopped successfully.'}));
-          }
+        console.log(`[WebSocketServer] Client ${clientId} initiated 'stop_transcription_stream'${message.streamId !== undefined ? ` for stream ${message.streamId}` : ''}.`);
+        const streams = message.streamId !== undefined
+          ? getAttachedStreams(ws).filter(stream => stream.streamId === message.streamId)
+          : getAttachedStreams(ws);
+        if (streams.length > 0) {
+          streams.forEach(stream => {
+            stopStream(stream);
+            console.log(`[WebSocketServer] Transcription stream ${stream.streamId} stopped for client ${clientId}.`);
+            send(ws, { type: 'stream_stopped', roomId: stream.room.id, streamId: stream.streamId });
+          });
         } else {
            console.warn(`[WebSocketServer] Client ${clientId} tried to stop a non-existent stream.`);
+           sendError(ws, 'no_active_stream', 'There is no active transcription stream to stop.');
         }
         break;
       }
 
+      case 'resume_stream': {
+        const stream = streamsByResumeToken.get(message.resumeToken);
+        if (!stream) {
+          console.warn(`[WebSocketServer] Client ${clientId} tried to resume an unknown or expired stream.`);
+          sendError(ws, 'resume_failed', 'The stream to resume no longer exists. Start a new one.');
+          break;
+        }
+        if (!resolveAuthorizedRoom(stream.room.id)) break;
+        if (!canAddStream(stream.room.id, stream.streamId)) break;
+        const currentStream = activeStreams.get(ws)?.get(stream.streamId);
+        if (currentStream && currentStream !== stream) {
+          stopStream(currentStream);
+        }
+        const previousSocket = stream.socket;
+        if (previousSocket && previousSocket !== ws) {
+          // The old connection is half-open: the client noticed the drop before the heartbeat did
+          const orphans = getAttachedStreams(previousSocket).filter(other => other !== stream);
+          releaseSocket(stream);
+          orphans.forEach(detachStream); // The speaker resumes these with their own tokens
+          previousSocket.terminate();
+        }
+        attachStream(stream, ws);
+        console.log(`[WebSocketServer] Client ${clientId} resumed stream ${stream.streamId} of session ${stream.sessionId} in room '${stream.room.id}' (${stream.outbox.length} queued messages).`);
+        send(ws, { type: 'stream_resumed', roomId: stream.room.id, sessionId: stream.sessionId, streamId: stream.streamId });
+        const outbox = stream.outbox;
+        stream.outbox = [];
+        outbox.forEach(payload => deliver(ws, payload));
+        break;
+      }
+
       case 'subscribe_audio': {
-        audioSubscribers.add(ws);
-        console.log(`[WebSocketServer] Client ${clientId} subscribed as listener. Total listeners: ${audioSubscribers.size}`);
-        if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ message: 'Subscribed to receive translated audio.' }));
+        if (getAttachedStreams(ws).length > 0) {
+          console.warn(`[WebSocketServer] Client ${clientId} has an active stream and cannot subscribe as listener.`);
+          sendError(ws, 'stream_active', 'Stop the active transcription stream before subscribing as a listener.');
+          break;
+        }
+        const listenerRoomId = resolveAuthorizedRoom(message.roomId);
+        if (!listenerRoomId) break;
+        const listenerLanguage = message.targetLanguage?.trim() || DEFAULT_TARGET_LANGUAGE;
+        const wantsAudio = Boolean(message.audio) && ttsEngine !== null;
+        const voicePerSpeaker = wantsAudio && Boolean(message.voicePerSpeaker);
+        const room = joinRoom(ws, listenerRoomId, 'listener', listenerLanguage, wantsAudio, voicePerSpeaker);
+        console.log(`[WebSocketServer] Client ${clientId} subscribed as listener to room '${room.id}' (${listenerLanguage}, audio: ${wantsAudio}, voice per speaker: ${voicePerSpeaker}). Listeners in room: ${room.listeners.size}`);
+        send(ws, { type: 'subscribed', roomId: room.id, targetLanguage: listenerLanguage, audio: wantsAudio, voicePerSpeaker });
+        if (message.sinceSegmentId !== undefined || message.historySeconds !== undefined) {
+          // Catch-up: replay retained segments in order, flagged so they are shown but not spoken
+          const history = getHistoryForListener(room, listenerLanguage, message.sinceSegmentId, message.historySeconds);
+          console.log(`[WebSocketServer] Replaying ${history.length} history segment(s) to client ${clientId}.`);
+          history.forEach(entry => send(ws, {
+            type: 'translated_text_for_listener',
+            roomId: room.id,
+            segmentId: entry.segmentId,
+            speakerId: entry.speakerId,
+            speakerName: entry.speakerName,
+            text: entry.text,
+            targetLanguage: listenerLanguage,
+            history: true,
+          }));
+          break;
         }
+        const lastBroadcastedTranslation = room.lastBroadcastedTranslations.get(listenerLanguage);
         if (lastBroadcastedTranslation) {
-          // console.log(`[WebSocketServer] Sending last known translation to new listener ${clientId}...`);
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({
-              type: 'translated_text_for_listener',
-              ...lastBroadcastedTranslation
-            }));
-          }
+          send(ws, {
+            type: 'translated_text_for_listener',
+            roomId: room.id,
+            ...lastBroadcastedTranslation
+          });
         }
         break;
       }
-        
-      default:
-        console.warn(`[WebSocketServer] Client ${clientId} sent unknown action: ${action}`, parsedData);
-        if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ error: `Action '${action}' not recognized.` }));
-        }
     }
   });
 
   ws.on('close', (code, reason) => {
     console.log(`[WebSocketServer] Client ${clientId} disconnected. Code: ${code}, Reason: ${reason.toString()}`);
-    const transcriber = activeTranscribers.get(ws);
-    if (transcriber) {
-      transcriber.stop();
-      activeTranscribers.delete(ws);
-      lastProcessedTextInfo.delete(ws); // Clean up cache for the disconnected client
-      console.log(`[WebSocketServer] Active transcriber cleaned up for client ${clientId}.`);
-    }
-    if (audioSubscribers.has(ws)) {
-      audioSubscribers.delete(ws);
-      console.log(`[WebSocketServer] Audio subscriber removed for client ${clientId}. Total listeners: ${audioSubscribers.size}`);
+    lastSeenAt.delete(ws);
+    sendQueues.get(ws)?.close();
+    sendQueues.delete(ws);
+    getAttachedStreams(ws).forEach(stream => {
+      if (code === 1000 || code === 1001) {
+        // Deliberate close (page left or unmounted): nothing to resume
+        stopStream(stream);
+        console.log(`[WebSocketServer] Active stream ${stream.streamId} stopped for client ${clientId}.`);
+      } else {
+        detachStream(stream);
+        console.log(`[WebSocketServer] Stream ${stream.streamId} of client ${clientId} detached. It can be resumed for ${RESUME_GRACE_MS}ms.`);
+      }
+    });
+    const roomId = clientRooms.get(ws);
+    if (roomId) {
+      leaveRoom(ws);
+      console.log(`[WebSocketServer] Client ${clientId} removed from room '${roomId}'. Active rooms: ${rooms.size}`);
     }
   });
 
@@ -211,49 +945,70 @@ wss.on('connection', (ws: WebSocket) => {
     console.error(`[WebSocketServer] Error for client ${clientId}:`, error);
     // Cleanup is generally handled by 'close' event which often follows 'error'
   });
-  
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({ message: 'Connected successfully to LinguaVox WebSocket server.' }));
-  }
 });
 
 wss.on('error', (error: Error) => {
   console.error('[WebSocketServer] General server error:', error);
 });
 
+// Heartbeat: half-open sockets never emit 'close' on their own, so clients that stop
+// answering pings are terminated, which detaches (and later reaps) their streams.
+const heartbeatInterval = setInterval(() => {
+  const now = Date.now();
+  wss.clients.forEach(client => {
+    const lastSeen = lastSeenAt.get(client) ?? now;
+    if (now - lastSeen > HEARTBEAT_TIMEOUT_MS) {
+      console.warn(`[WebSocketServer] Terminating unresponsive client (silent for ${now - lastSeen}ms).`);
+      client.terminate();
+      return;
+    }
+    if (client.readyState === WebSocket.OPEN) {
+      client.ping();
+    }
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+wss.on('close', () => clearInterval(heartbeatInterval));
+
+httpServer.on('error', (error: Error) => {
+  console.error('[WebSocketServer] HTTP server error:', error);
+});
+
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('[WebSocketServer] SIGINT received. Shutting down...');
+  streamsByResumeToken.forEach(stream => stopStream(stream));
   wss.clients.forEach(client => {
-    const transcriber = activeTranscribers.get(client);
-    if (transcriber) {
-      transcriber.stop();
-    }
     client.close(1012, "Server is restarting"); // 1012 Service Restart
   });
+  stopAllWhisperWorkers();
+  ttsEngine?.dispose?.();
   wss.close(err => {
     if (err) {
       console.error('[WebSocketServer] Error closing WebSocket server:', err);
     }
-    console.log('[WebSocketServer] Server closed.');
-    process.exit(0);
+    httpServer.close(() => {
+      console.log('[WebSocketServer] Server closed.');
+      process.exit(0);
+    });
   });
 });
 process.on('SIGTERM', () => {
     // Similar to SIGINT
     console.log('[WebSocketServer] SIGTERM received. Shutting down...');
+    streamsByResumeToken.forEach(stream => stopStream(stream));
     wss.clients.forEach(client => {
-        const transcriber = activeTranscribers.get(client);
-        if (transcriber) {
-            transcriber.stop();
-        }
         client.close(1012, "Server is shutting down");
     });
+    stopAllWhisperWorkers();
+    ttsEngine?.dispose?.();
     wss.close(err => {
         if (err) {
             console.error('[WebSocketServer] Error closing WebSocket server during SIGTERM:', err);
         }
-        console.log('[WebSocketServer] Server closed (SIGTERM).');
-        process.exit(0);
+        httpServer.close(() => {
+            console.log('[WebSocketServer] Server closed (SIGTERM).');
+            process.exit(0);
+        });
     });
 });